@@ -1,18 +1,105 @@
-import { Effect, Stream, Queue, Scope } from "effect";
-import type { WebSocketServer, WebSocketConnection, ConnectionMessage } from "../../core/src";
-import { WebSocketServerError } from "../../core/src";
+import { Config, ConfigError, Effect, Layer, Stream, Queue, Scope, Deferred, Take, Option, Either, Ref } from "effect";
+import type {
+  WebSocketServer,
+  WebSocketConnection,
+  ConnectionMessage,
+  CloseInfo,
+  BroadcastOptions,
+  ServerOptions,
+  ServeOptions,
+  SendOptions,
+  CompressionOptions,
+  UnreadBuffer,
+  ServerEventBuffer,
+  InboundRateLimiter,
+  AcceptedUpgrade,
+  ShutdownOptions,
+  UpgradeRequest
+} from "../../core/src";
+import {
+  WebSocketServerError,
+  WebSocketServerEvent,
+  WebSocketServerService,
+  makeUpgradeRequest,
+  acceptUpgrade,
+  defaultServerHeartbeatOptions,
+  heartbeatTimeoutReason,
+  defaultShutdownOptions,
+  defaultMaxMessageSize,
+  defaultCompressionOptions,
+  WebSocketMessageTooLargeError,
+  messageTooLargeReason,
+  drainConnections,
+  sendToEach,
+  shouldCompress,
+  serveConnections,
+  makeInboundRateLimiter,
+  makeUnreadBuffer,
+  unreadMessageLimit,
+  unreadConnectionLimit,
+  makeServerEventBuffer,
+  rateLimitExceededReason
+} from "../../core/src";
+
+/**
+ * Options for the Bun WebSocket server.
+ * @template A - The data `authorize` attaches to each connection
+ * @template S - The session state each connection starts with
+ */
+export interface BunWebSocketServerOptions<A = unknown, S = A> extends ServerOptions<A, S> {
+  readonly port?: number;
+  readonly hostname?: string;
+  /**
+   * Handles requests that are not WebSocket upgrades, so HTTP routes can share the port.
+   * Without it such requests are answered with 400.
+   */
+  readonly fetch?: (request: Request, server: Bun.Server<any>) => Response | Promise<Response>;
+}
+
+// Reason Bun gives when idleTimeout closes a connection
+const bunIdleTimeoutReason = "WebSocket timed out from inactivity";
+
+// Reason Bun gives when a message exceeds maxPayloadLength; it drops the connection without a close frame
+const bunMessageTooLargeReason = "Received too big message";
+
+// Maps Bun's own close reasons onto the codes and reasons the core contract reports
+const toCloseInfo = (code: number, reason: string): CloseInfo => {
+  if (reason === bunIdleTimeoutReason) return { code, reason: heartbeatTimeoutReason };
+  if (reason === bunMessageTooLargeReason) return { code: 1009, reason: messageTooLargeReason };
+  return { code, reason };
+};
+
+// Carried from fetch to the websocket handlers through server.upgrade
+interface UpgradeData<A, S> extends AcceptedUpgrade<A, S> {
+  readonly request: UpgradeRequest;
+}
+
+class BunWebSocketConnection<A = unknown, S = A> implements WebSocketConnection<A, S> {
+  private readonly subscriptions = new Set<string>();
 
-class BunWebSocketConnection implements WebSocketConnection {
   constructor(
-    private ws: Bun.ServerWebSocket<any>,
-    public readonly id: string
+    private ws: Bun.ServerWebSocket<UpgradeData<A, S>>,
+    public readonly id: string,
+    public readonly request: UpgradeRequest,
+    public readonly data: A,
+    public readonly session: Ref.Ref<S>,
+    private readonly inbox: UnreadBuffer<string | ArrayBuffer | Buffer>,
+    private readonly closeSignal: Deferred.Deferred<CloseInfo>,
+    private readonly topicRegistry: Map<string, Set<BunWebSocketConnection<A, S>>>,
+    private readonly compression: CompressionOptions
   ) {}
 
-  send(message: string | ArrayBuffer | Buffer): Effect.Effect<void, WebSocketServerError> {
+  // Bun does not expose the negotiated extensions; it accepts permessage-deflate whenever the client offers it
+  get perMessageDeflate(): boolean {
+    const offered = this.request.headers["sec-websocket-extensions"] ?? "";
+    return this.compression.enabled && offered.includes("permessage-deflate");
+  }
+
+  send(message: string | ArrayBuffer | Buffer, options: SendOptions = {}): Effect.Effect<void, WebSocketServerError> {
     return Effect.try({
       try: () => {
         if (this.ws.readyState === WebSocket.OPEN) {
-          this.ws.send(message);
+          this.ws.send(message, shouldCompress(this.compression, message, options));
         } else {
           throw new Error("WebSocket is not open");
         }
@@ -33,92 +120,337 @@ class BunWebSocketConnection implements WebSocketConnection {
   get readyState(): Effect.Effect<number, never> {
     return Effect.succeed(this.ws.readyState);
   }
+
+  get messages(): Stream.Stream<string | ArrayBuffer | Buffer, WebSocketServerError> {
+    return this.inbox.stream;
+  }
+
+  get closed(): Effect.Effect<CloseInfo, never> {
+    return Deferred.await(this.closeSignal);
+  }
+
+  subscribe(topic: string): Effect.Effect<void, never> {
+    return Effect.sync(() => {
+      if (this.ws.readyState !== WebSocket.OPEN) return;
+      this.ws.subscribe(topic);
+      this.subscriptions.add(topic);
+      const members = this.topicRegistry.get(topic) ?? new Set();
+      this.topicRegistry.set(topic, members.add(this));
+    });
+  }
+
+  unsubscribe(topic: string): Effect.Effect<void, never> {
+    return Effect.sync(() => {
+      if (this.ws.readyState === WebSocket.OPEN) {
+        this.ws.unsubscribe(topic);
+      }
+      this.leave(topic);
+    });
+  }
+
+  get topics(): Effect.Effect<ReadonlyArray<string>, never> {
+    return Effect.sync(() => Array.from(this.subscriptions));
+  }
+
+  publish(topic: string, message: string | ArrayBuffer | Buffer): Effect.Effect<number, never> {
+    return Effect.sync(() => {
+      const recipients = Array.from(this.topicRegistry.get(topic) ?? []).filter((member) => member !== this);
+      // Bun's native publish skips the publishing socket; 0 means the message was dropped
+      return this.ws.publish(topic, message, shouldCompress(this.compression, message)) === 0 ? 0 : recipients.length;
+    });
+  }
+
+  // Returns whether a reader of connection.messages received the message
+  handleMessage(data: string | Buffer): boolean {
+    this.inbox.offer(data);
+    return this.inbox.isRead();
+  }
+
+  handleClose(code: number, reason: string): CloseInfo {
+    this.inbox.end();
+    this.subscriptions.forEach((topic) => this.leave(topic));
+    const info = { code, reason };
+    Deferred.unsafeDone(this.closeSignal, Effect.succeed(info));
+    return info;
+  }
+
+  terminate(): void {
+    this.ws.terminate();
+  }
+
+  private leave(topic: string): void {
+    this.subscriptions.delete(topic);
+    const members = this.topicRegistry.get(topic);
+    members?.delete(this);
+    if (members?.size === 0) {
+      this.topicRegistry.delete(topic);
+    }
+  }
 }
 
-class BunWebSocketServer implements WebSocketServer {
-  private connectionMap = new Map<Bun.ServerWebSocket<any>, string>();
+class BunWebSocketServer<A = unknown, S = A> implements WebSocketServer<A, S> {
+  private shutdown: Deferred.Deferred<void> | undefined;
 
   constructor(
     private readonly server: any, // Bun Server
-    private readonly connectionQueue: Queue.Queue<WebSocketConnection>,
-    private readonly messageQueue: Queue.Queue<ConnectionMessage>
+    private readonly connectionBuffer: UnreadBuffer<WebSocketConnection<A, S>>,
+    private readonly messageBuffer: UnreadBuffer<ConnectionMessage>,
+    private readonly eventBuffer: ServerEventBuffer,
+    private readonly registry: Map<string, BunWebSocketConnection<A, S>>,
+    private readonly topicRegistry: Map<string, Set<BunWebSocketConnection<A, S>>>,
+    private readonly shutdownOptions: ShutdownOptions,
+    private readonly compression: CompressionOptions,
+    private readonly stopAccepting: () => void
   ) {}
 
-  get connections(): Stream.Stream<WebSocketConnection, WebSocketServerError> {
-    return Stream.fromQueue(this.connectionQueue);
+  get connections(): Stream.Stream<WebSocketConnection<A, S>, WebSocketServerError> {
+    return this.connectionBuffer.stream;
   }
 
   get messages(): Stream.Stream<ConnectionMessage, WebSocketServerError> {
-    return Stream.fromQueue(this.messageQueue);
+    return this.messageBuffer.stream;
   }
 
-  close(): Effect.Effect<void, WebSocketServerError> {
-    return Effect.try({
-      try: () => {
-        this.server.stop();
-      },
-      catch: (error) => new WebSocketServerError({ reason: (error as Error).message })
+  get events(): Stream.Stream<WebSocketServerEvent, WebSocketServerError> {
+    return this.eventBuffer.events;
+  }
+
+  serve<E, R>(
+    handler: (connection: WebSocketConnection<A, S>) => Effect.Effect<unknown, E, R>,
+    options: ServeOptions = {}
+  ): Effect.Effect<void, WebSocketServerError, Exclude<R, Scope.Scope>> {
+    return serveConnections(this.connections, handler, options, (connection, cause) =>
+      Effect.sync(() => this.eventBuffer.emit(WebSocketServerEvent.connection_error({ connectionId: connection.id, cause })))
+    );
+  }
+
+  broadcast(message: string | ArrayBuffer | Buffer, options: BroadcastOptions<A, S> = {}): Effect.Effect<number, never> {
+    return Effect.suspend(() => {
+      const except = new Set(typeof options.except === "string" ? [options.except] : options.except);
+      const recipients = Array.from(this.registry.values()).filter(
+        (connection) => !except.has(connection.id) && (options.filter?.(connection) ?? true)
+      );
+      return sendToEach(recipients, message);
+    });
+  }
+
+  getConnection(id: string): Effect.Effect<Option.Option<WebSocketConnection<A, S>>, never> {
+    return Effect.sync(() => Option.fromNullable(this.registry.get(id)));
+  }
+
+  get connectionCount(): Effect.Effect<number, never> {
+    return Effect.sync(() => this.registry.size);
+  }
+
+  publish(topic: string, message: string | ArrayBuffer | Buffer): Effect.Effect<number, never> {
+    return Effect.sync(() => {
+      const subscribers = this.topicRegistry.get(topic)?.size ?? 0;
+      return this.server.publish(topic, message, shouldCompress(this.compression, message)) === 0 ? 0 : subscribers;
+    });
+  }
+
+  topicMembers(topic: string): Effect.Effect<ReadonlyArray<WebSocketConnection<A, S>>, never> {
+    return Effect.sync(() => Array.from(this.topicRegistry.get(topic) ?? []));
+  }
+
+  close(options: Partial<ShutdownOptions> = {}): Effect.Effect<void, WebSocketServerError> {
+    return Effect.suspend(() => {
+      if (this.shutdown) {
+        return Deferred.await(this.shutdown);
+      }
+      const shutdown = (this.shutdown = Effect.runSync(Deferred.make<void>()));
+      return Effect.try({
+        try: () => this.stopAccepting(),
+        catch: (error) => new WebSocketServerError({ reason: (error as Error).message })
+      }).pipe(
+        Effect.zipRight(
+          drainConnections(
+            Array.from(this.registry.values()),
+            { ...this.shutdownOptions, ...options },
+            (connection) => connection.terminate()
+          )
+        ),
+        Effect.zipRight(Effect.sync(() => {
+          this.connectionBuffer.end();
+          this.messageBuffer.end();
+          this.eventBuffer.end();
+        })),
+        Effect.ensuring(Deferred.succeed(shutdown, undefined))
+      );
     });
   }
 }
 
-export const makeWebSocketServer = (
-  options: { port?: number; hostname?: string } = {}
-): Effect.Effect<WebSocketServer, WebSocketServerError, Scope.Scope> =>
+export const makeWebSocketServer = <A = unknown, S = A>(
+  options: BunWebSocketServerOptions<A, S> = {}
+): Effect.Effect<WebSocketServer<A, S>, WebSocketServerError, Scope.Scope> =>
   Effect.gen(function* () {
     const scope = yield* Effect.scope;
-    const connectionQueue = yield* Queue.unbounded<WebSocketConnection>();
-    const messageQueue = yield* Queue.unbounded<ConnectionMessage>();
-    const connectionMap = new Map<Bun.ServerWebSocket<any>, string>();
+    const connectionBuffer = makeUnreadBuffer<WebSocketConnection<A, S>>(unreadConnectionLimit);
+    const messageBuffer = makeUnreadBuffer<ConnectionMessage>(unreadMessageLimit);
+    const eventBuffer = makeServerEventBuffer();
+    const connectionMap = new Map<Bun.ServerWebSocket<UpgradeData<A, S>>, BunWebSocketConnection<A, S>>();
+    const limiterMap = new Map<Bun.ServerWebSocket<UpgradeData<A, S>>, InboundRateLimiter<string | Buffer>>();
+    const registry = new Map<string, BunWebSocketConnection<A, S>>();
+    const topicRegistry = new Map<string, Set<BunWebSocketConnection<A, S>>>();
+    const heartbeat = { ...defaultServerHeartbeatOptions, ...options.heartbeat };
+    const maxMessageSize = options.maxMessageSize ?? defaultMaxMessageSize;
+    const compression = { ...defaultCompressionOptions, ...options.compression };
 
     const server = yield* Effect.try({
       try: () => Bun.serve({
         port: options.port || 8080,
         hostname: options.hostname || "localhost",
         websocket: {
-          open(ws: Bun.ServerWebSocket<any>) {
-            const id = Math.random().toString(36).substring(7);
-            connectionMap.set(ws, id);
-            const connection = new BunWebSocketConnection(ws, id);
+          maxPayloadLength: maxMessageSize,
+          // A shared compressor does not keep context between messages; Bun has no compression level
+          perMessageDeflate: compression.enabled && {
+            compress: compression.serverContextTakeover ? "dedicated" : "shared",
+            decompress: compression.clientContextTakeover ? "dedicated" : "shared"
+          },
+          // Bun pings idle connections itself and closes those silent for idleTimeout seconds
+          ...(heartbeat.enabled && {
+            idleTimeout: Math.ceil((heartbeat.interval + heartbeat.timeout) / 1000),
+            sendPings: true
+          }),
+          open(ws: Bun.ServerWebSocket<UpgradeData<A, S>>) {
+            const id = ws.data.id;
+            const connection = new BunWebSocketConnection(
+              ws,
+              id,
+              ws.data.request,
+              ws.data.data,
+              ws.data.session,
+              makeUnreadBuffer<string | ArrayBuffer | Buffer>(unreadMessageLimit),
+              Effect.runSync(Deferred.make<CloseInfo>()),
+              topicRegistry,
+              compression
+            );
+            connectionMap.set(ws, connection);
+            // Bun cannot pause a socket, so delayed messages are buffered
+            limiterMap.set(ws, makeInboundRateLimiter<string | Buffer>(options.rateLimit, {
+              deliver: (message) => {
+                // Messages a connection reader received are kept for server.messages only while it is read too
+                if (!connection.handleMessage(message) || messageBuffer.isRead()) {
+                  messageBuffer.offer({ connectionId: id, data: message });
+                }
+              },
+              close: () => ws.close(1008, rateLimitExceededReason)
+            }));
+            registry.set(id, connection);
 
-            Queue.unsafeOffer(connectionQueue, connection);
+            connectionBuffer.offer(connection);
+            eventBuffer.emit(WebSocketServerEvent.connected({ connectionId: id }));
           },
-          message(ws: Bun.ServerWebSocket<any>, message: string | Buffer) {
-            const id = connectionMap.get(ws);
-            if (id) {
-              Queue.unsafeOffer(messageQueue, { connectionId: id, data: message });
-            }
+          message(ws: Bun.ServerWebSocket<UpgradeData<A, S>>, message: string | Buffer) {
+            limiterMap.get(ws)?.offer(message, typeof message === "string" ? Buffer.byteLength(message) : message.byteLength);
           },
-          close(ws: Bun.ServerWebSocket<any>, code: number, reason: string) {
+          close(ws: Bun.ServerWebSocket<UpgradeData<A, S>>, code: number, reason: string) {
+            const connection = connectionMap.get(ws);
+            limiterMap.get(ws)?.flush();
+            limiterMap.delete(ws);
+            if (connection) {
+              registry.delete(connection.id);
+              if (reason === bunMessageTooLargeReason) {
+                eventBuffer.emit(WebSocketServerEvent.connection_error({
+                  connectionId: connection.id,
+                  cause: new WebSocketMessageTooLargeError({ limit: maxMessageSize, size: undefined })
+                }));
+              }
+              const mapped = toCloseInfo(code, reason);
+              const info = connection.handleClose(mapped.code, mapped.reason);
+              eventBuffer.emit(WebSocketServerEvent.disconnected({ connectionId: connection.id, ...info }));
+            }
             connectionMap.delete(ws);
           }
         },
         fetch(req, server) {
-          if (server.upgrade(req)) {
-            return new Response();
+          if (options.fetch && req.headers.get("upgrade")?.toLowerCase() !== "websocket") {
+            return options.fetch(req, server);
           }
-          return new Response("WebSocket upgrade failed", { status: 400 });
+          const url = new URL(req.url);
+          const request = makeUpgradeRequest(
+            url.pathname + url.search,
+            Object.fromEntries(req.headers.entries()),
+            server.requestIP(req)?.address
+          );
+          return Effect.runPromise(acceptUpgrade(options, request, (id) => registry.has(id))).then((result) => {
+            if (Either.isLeft(result)) {
+              return new Response(result.left.reason, { status: result.left.status });
+            }
+            if (server.upgrade(req, { data: { ...result.right, request } })) {
+              return new Response();
+            }
+            return new Response("WebSocket upgrade failed", { status: 400 });
+          });
+        },
+        // Bun has no per-socket error callback; failures surface as disconnections
+        error(error) {
+          eventBuffer.emit(WebSocketServerEvent.server_error({ cause: error }));
+          return new Response("Internal Server Error", { status: 500 });
         }
       }),
       catch: (error) => new WebSocketServerError({ reason: (error as Error).message })
     });
 
-    const wsServer = new BunWebSocketServer(server, connectionQueue, messageQueue);
+    // stop(false) refuses new connections but leaves open ones to be drained
+    const wsServer = new BunWebSocketServer(
+      server,
+      connectionBuffer,
+      messageBuffer,
+      eventBuffer,
+      registry,
+      topicRegistry,
+      { ...defaultShutdownOptions, ...options.shutdown },
+      compression,
+      () => server.stop(false)
+    );
 
     // Clean up on scope close
-    yield* Scope.addFinalizer(scope, Effect.sync(() => {
-      server.stop();
-    }));
+    yield* Scope.addFinalizer(scope, Effect.ignore(wsServer.close()).pipe(
+      Effect.ensuring(Effect.sync(() => server.stop(true)))
+    ));
 
     return wsServer;
   });
 
-export const BunWebSocketServerLive = makeWebSocketServer({ port: 8080 });
+/**
+ * The server options a layer can read from `Config`.
+ */
+export type BunWebSocketServerConfig = Pick<BunWebSocketServerOptions, "port" | "hostname" | "heartbeat" | "shutdown">;
+
+/**
+ * Layer that starts a server for `WebSocketServerService` when built and shuts it down when released.
+ */
+export const layerWebSocketServer = (
+  options: BunWebSocketServerOptions = {}
+): Layer.Layer<WebSocketServerService, WebSocketServerError> =>
+  Layer.scoped(WebSocketServerService, makeWebSocketServer(options));
+
+/**
+ * Like `layerWebSocketServer`, reading options from `Config`. Values read from `config`
+ * take precedence over `options`, which supplies the rest (e.g. `authorize`).
+ *
+ * @example
+ * ```typescript
+ * layerWebSocketServerConfig({ port: Config.integer("WS_PORT") }, { authorize })
+ * ```
+ */
+export const layerWebSocketServerConfig = (
+  config: Config.Config.Wrap<BunWebSocketServerConfig>,
+  options: BunWebSocketServerOptions = {}
+): Layer.Layer<WebSocketServerService, WebSocketServerError | ConfigError.ConfigError> =>
+  Layer.scoped(
+    WebSocketServerService,
+    Effect.flatMap(Config.unwrap(config), (resolved) => makeWebSocketServer({ ...options, ...resolved }))
+  );
+
+export const BunWebSocketServerLive = layerWebSocketServer({ port: 8080 });
 
 // Helper to create and use a WebSocket server
-export const withWebSocketServer = <A, E>(
-  options: { port?: number; hostname?: string },
-  f: (server: WebSocketServer) => Effect.Effect<A, E, Scope.Scope>
+export const withWebSocketServer = <A, E, D = unknown, S = D>(
+  options: BunWebSocketServerOptions<D, S>,
+  f: (server: WebSocketServer<D, S>) => Effect.Effect<A, E, Scope.Scope>
 ): Effect.Effect<A, E | WebSocketServerError, Scope.Scope> =>
   Effect.scoped(
     Effect.gen(function* () {
@@ -1,7 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest"
-import { Effect, Stream, Chunk } from "effect"
-import { WebSocketServerError } from "../../core/src"
-import { makeWebSocketServer, withWebSocketServer } from "../src"
+import { Effect, Stream, Chunk, Option, Ref, Config, ConfigProvider, Cause, Schedule, Deferred } from "effect"
+import { WebSocketServerError, WebSocketAuthorizationError, WebSocketServerEvent, WebSocketServerService, heartbeatTimeoutReason, rateLimitExceededReason,
+  WebSocketMessageTooLargeError, messageTooLargeReason, unreadMessageLimit } from "../../core/src"
+import { makeWebSocketServer, withWebSocketServer, layerWebSocketServerConfig } from "../src"
+import { connect } from "net"
 
 describe("WebSocketServer", () => {
   let serverPort: number
@@ -325,4 +327,813 @@ describe("WebSocketServer", () => {
 
     expect(result._tag).toBe("Failure")
   })
-})
\ No newline at end of file
+
+  it("should expose per-connection messages and close signal", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer({ port: serverPort }, (server) =>
+          Effect.gen(function* () {
+            const client = new WebSocket(`ws://localhost:${serverPort}`)
+            client.onopen = () => {
+              client.send("first")
+              client.send("second")
+              client.close(4001, "bye")
+            }
+
+            const connection = yield* Stream.runHead(server.connections).pipe(Effect.flatten)
+            const messages = yield* Stream.runCollect(connection.messages)
+            const closed = yield* connection.closed
+
+            return { messages: Chunk.toReadonlyArray(messages).map(String), closed }
+          })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value.messages).toEqual(["first", "second"])
+      expect(result.value.closed).toEqual({ code: 4001, reason: "bye" })
+    }
+  }, 5000)
+
+  it("should keep only a bounded backlog while connection messages are unread", async () => {
+    const total = unreadMessageLimit + 10
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer({ port: serverPort }, (server) =>
+          Effect.gen(function* () {
+            const client = new WebSocket(`ws://localhost:${serverPort}`)
+            client.onopen = () => {
+              for (let i = 0; i < total; i++) client.send(String(i))
+              client.close()
+            }
+
+            const connection = yield* Stream.runHead(server.connections).pipe(Effect.flatten)
+            const all = yield* Stream.take(server.messages, total).pipe(Stream.runCollect)
+            const kept = yield* Stream.runCollect(connection.messages)
+
+            return { all: Chunk.size(all), kept: Chunk.toReadonlyArray(kept).map(String) }
+          })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value.all).toBe(total)
+      expect(result.value.kept).toEqual(Array.from({ length: unreadMessageLimit }, (_, i) => String(i)))
+    }
+  }, 5000)
+
+  it("should track connections and broadcast to them", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer({ port: serverPort }, (server) =>
+          Effect.gen(function* () {
+            const received: Array<string> = []
+            const clients = yield* Effect.forEach([0, 1, 2], () =>
+              Effect.async<WebSocket>((resume) => {
+                const client = new WebSocket(`ws://localhost:${serverPort}`)
+                client.onmessage = (event) => { received.push(String(event.data)) }
+                client.onopen = () => resume(Effect.succeed(client))
+              })
+            )
+
+            const connections = yield* Stream.take(server.connections, 3).pipe(Stream.runCollect)
+            const [sender, muted] = Chunk.toReadonlyArray(connections)
+            const count = yield* server.connectionCount
+            const found = yield* server.getConnection(sender.id)
+
+            const sent = yield* server.broadcast("hello", {
+              except: sender.id,
+              filter: (connection) => connection.id !== muted.id
+            })
+            yield* Effect.sleep(100)
+
+            clients[0].close()
+            yield* sender.closed
+            const countAfterClose = yield* server.connectionCount
+            const missing = yield* server.getConnection(sender.id)
+            clients.forEach((client) => client.close())
+
+            return { count, found: Option.isSome(found), sent, received, countAfterClose, missing: Option.isNone(missing) }
+          })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value).toEqual({
+        count: 3,
+        found: true,
+        sent: 1,
+        received: ["hello"],
+        countAfterClose: 2,
+        missing: true
+      })
+    }
+  }, 5000)
+
+  it("should select broadcast recipients when the broadcast runs", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer({ port: serverPort }, (server) =>
+          Effect.gen(function* () {
+            const broadcast = server.broadcast("hello")
+            const client = new WebSocket(`ws://localhost:${serverPort}`)
+            const received = Effect.async<string>((resume) => {
+              client.onmessage = (event) => resume(Effect.succeed(String(event.data)))
+            })
+            yield* Stream.runHead(server.connections)
+
+            const sent = yield* broadcast
+            const message = yield* received
+            client.close()
+            return { sent, message }
+          })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value).toEqual({ sent: 1, message: "hello" })
+    }
+  }, 5000)
+
+  it("should publish to topic subscribers", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer({ port: serverPort }, (server) =>
+          Effect.gen(function* () {
+            const received: Array<Array<string>> = [[], [], []]
+            const clients = yield* Effect.forEach([0, 1, 2], (index) =>
+              Effect.async<WebSocket>((resume) => {
+                const client = new WebSocket(`ws://localhost:${serverPort}`)
+                client.onmessage = (event) => { received[index].push(String(event.data)) }
+                client.onopen = () => resume(Effect.succeed(client))
+              })
+            )
+
+            const connections = yield* Stream.take(server.connections, 3).pipe(Stream.runCollect)
+            const [first, second] = Chunk.toReadonlyArray(connections)
+            yield* first.subscribe("room")
+            yield* second.subscribe("room")
+
+            const members = yield* server.topicMembers("room")
+            const topics = yield* first.topics
+            const publishedByServer = yield* server.publish("room", "to everyone")
+            const publishedByFirst = yield* first.publish("room", "from first")
+            yield* Effect.sleep(100)
+
+            yield* second.unsubscribe("room")
+            const membersAfterUnsubscribe = yield* server.topicMembers("room")
+            clients[0].close()
+            yield* first.closed
+            const membersAfterClose = yield* server.topicMembers("room")
+            clients.forEach((client) => client.close())
+
+            return {
+              members: members.map((member) => member.id).sort(),
+              expectedMembers: [first.id, second.id].sort(),
+              topics,
+              publishedByServer,
+              publishedByFirst,
+              received,
+              membersAfterUnsubscribe: membersAfterUnsubscribe.map((member) => member.id),
+              firstId: first.id,
+              membersAfterClose: membersAfterClose.length
+            }
+          })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      const value = result.value
+      expect(value.members).toEqual(value.expectedMembers)
+      expect(value.topics).toEqual(["room"])
+      expect(value.publishedByServer).toBe(2)
+      expect(value.publishedByFirst).toBe(1)
+      expect(value.received).toEqual([["to everyone"], ["to everyone", "from first"], []])
+      expect(value.membersAfterUnsubscribe).toEqual([value.firstId])
+      expect(value.membersAfterClose).toBe(0)
+    }
+  }, 5000)
+
+  it("should authorize upgrades and expose the upgrade request", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer(
+          {
+            port: serverPort,
+            authorize: (request) =>
+              request.query.get("token") === "secret"
+                ? Effect.succeed({ user: "alice" })
+                : Effect.fail(new WebSocketAuthorizationError({ status: 401, reason: "Unauthorized" }))
+          },
+          (server) =>
+            Effect.gen(function* () {
+              const rejected = yield* Effect.async<boolean>((resume) => {
+                const client = new WebSocket(`ws://localhost:${serverPort}/chat?token=wrong`)
+                client.onopen = () => resume(Effect.succeed(false))
+                client.onerror = () => resume(Effect.succeed(true))
+              })
+
+              const client = new WebSocket(`ws://localhost:${serverPort}/chat?token=secret`, {
+                headers: { Cookie: "session=abc; theme=dark", "X-Client": "test" }
+              } as unknown as string[])
+              const connection = yield* Stream.runHead(server.connections).pipe(Effect.flatten)
+              client.close()
+
+              return { rejected, data: connection.data, request: connection.request }
+            })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      const { rejected, data, request } = result.value
+      expect(rejected).toBe(true)
+      expect(data).toEqual({ user: "alice" })
+      expect(request.url).toBe("/chat?token=secret")
+      expect(request.query.get("token")).toBe("secret")
+      expect(request.headers["x-client"]).toBe("test")
+      expect(request.cookies).toEqual({ session: "abc", theme: "dark" })
+      expect(typeof request.remoteAddress).toBe("string")
+    }
+  }, 5000)
+
+  it("should evict connections that stop answering pings", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer({ port: serverPort, heartbeat: { enabled: true, interval: 500, timeout: 500 } }, (server) =>
+          Effect.gen(function* () {
+            // A raw socket completes the handshake and then never answers pings
+            const silent = connect(serverPort, "localhost", () => {
+              silent.write(
+                "GET / HTTP/1.1\r\nHost: localhost\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+                  "Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==\r\nSec-WebSocket-Version: 13\r\n\r\n"
+              )
+            })
+            const connection = yield* Stream.runHead(server.connections).pipe(Effect.flatten)
+            const closed = yield* connection.closed
+            silent.destroy()
+
+            return closed
+          })
+        ).pipe(Effect.timeout(14000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value).toEqual({ code: 1006, reason: heartbeatTimeoutReason })
+    }
+  }, 15000)
+
+  it("should pass non-upgrade requests to the fetch option", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer({ port: serverPort, fetch: () => new Response("rest") }, (server) =>
+          Effect.gen(function* () {
+            const response = yield* Effect.promise(() => fetch(`http://localhost:${serverPort}/api`).then((res) => res.text()))
+            const client = new WebSocket(`ws://localhost:${serverPort}/ws`)
+            const connection = yield* Stream.runHead(server.connections).pipe(Effect.flatten)
+            client.close()
+            return { response, url: connection.request.url }
+          })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value).toEqual({ response: "rest", url: "/ws" })
+    }
+  }, 5000)
+
+  it("should shut down gracefully", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer({ port: serverPort, shutdown: { timeout: 200 } }, (server) =>
+          Effect.gen(function* () {
+            const cooperative = new WebSocket(`ws://localhost:${serverPort}`)
+            const clientClosed = new Promise<{ code: number; reason: string }>((resolve) => {
+              cooperative.onclose = (event) => resolve({ code: event.code, reason: event.reason })
+            })
+            const first = yield* Stream.runHead(server.connections).pipe(Effect.flatten)
+
+            // A raw socket completes the handshake but never answers the close frame
+            const stubborn = connect(serverPort, "localhost", () => {
+              stubborn.write(
+                "GET / HTTP/1.1\r\nHost: localhost\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+                  "Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==\r\nSec-WebSocket-Version: 13\r\n\r\n"
+              )
+            })
+            stubborn.on("error", () => {})
+            const second = yield* Stream.runHead(server.connections).pipe(Effect.flatten)
+
+            yield* server.close({ reason: "Maintenance" })
+            const remainingConnections = yield* Stream.runCollect(server.connections)
+            const remainingMessages = yield* Stream.runCollect(server.messages)
+            stubborn.destroy()
+
+            return {
+              client: yield* Effect.promise(() => clientClosed),
+              first: yield* first.closed,
+              second: yield* second.closed,
+              remaining: Chunk.size(remainingConnections) + Chunk.size(remainingMessages)
+            }
+          })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value.client).toEqual({ code: 1001, reason: "Maintenance" })
+      expect(result.value.first).toEqual({ code: 1001, reason: "Maintenance" })
+      // Bun completes the closing handshake natively, so the silent socket is not terminated
+      expect(result.value.second).toEqual({ code: 1001, reason: "Maintenance" })
+      expect(result.value.remaining).toBe(0)
+    }
+  }, 5000)
+
+  it("should emit lifecycle events", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer({ port: serverPort }, (server) =>
+          Effect.gen(function* () {
+            const client = new WebSocket(`ws://localhost:${serverPort}`)
+            client.onopen = () => client.close(4001, "bye")
+            return yield* Stream.take(server.events, 2).pipe(Stream.runCollect)
+          })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      const [connected, disconnected] = Chunk.toReadonlyArray(result.value)
+      expect(connected._tag).toBe("connected")
+      if (connected._tag === "connected") {
+        expect(disconnected).toEqual(
+          WebSocketServerEvent.disconnected({ connectionId: connected.connectionId, code: 4001, reason: "bye" })
+        )
+      }
+    }
+  }, 5000)
+
+  it("should emit server errors", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer({ port: serverPort, fetch: () => { throw new Error("boom") } }, (server) =>
+          Effect.gen(function* () {
+            const status = yield* Effect.promise(() => fetch(`http://localhost:${serverPort}/api`).then((res) => res.status))
+            const event = yield* Stream.runHead(server.events)
+            return { status, event }
+          })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success" && result.value.event._tag === "Some") {
+      expect(result.value.status).toBe(500)
+      expect(result.value.event.value._tag).toBe("server_error")
+    } else {
+      expect.fail("expected a server_error event")
+    }
+  }, 5000)
+
+  it("should identify connections with random UUIDs by default", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer({ port: serverPort }, (server) =>
+          Effect.gen(function* () {
+            const clients = [new WebSocket(`ws://localhost:${serverPort}`), new WebSocket(`ws://localhost:${serverPort}`)]
+            const connections = yield* Stream.take(server.connections, 2).pipe(Stream.runCollect)
+            clients.forEach((client) => client.close())
+            return Chunk.toReadonlyArray(connections).map((connection) => connection.id)
+          })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      const [first, second] = result.value
+      expect(first).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/)
+      expect(second).not.toBe(first)
+    }
+  }, 5000)
+
+  it("should generate connection ids from the upgrade request", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer(
+          {
+            port: serverPort,
+            authorize: (request) => Effect.succeed({ session: request.query.get("session") ?? "anonymous" }),
+            generateId: (_request, data) => Effect.succeed(`session-${data.session}`)
+          },
+          (server) =>
+            Effect.gen(function* () {
+              const client = new WebSocket(`ws://localhost:${serverPort}/?session=abc`)
+              const connection = yield* Stream.runHead(server.connections).pipe(Effect.flatten)
+
+              const duplicateRejected = yield* Effect.async<boolean>((resume) => {
+                const duplicate = new WebSocket(`ws://localhost:${serverPort}/?session=abc`)
+                duplicate.onopen = () => resume(Effect.succeed(false))
+                duplicate.onerror = () => resume(Effect.succeed(true))
+              })
+              client.close()
+
+              return { id: connection.id, duplicateRejected }
+            })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value.id).toBe("session-abc")
+      expect(result.value.duplicateRejected).toBe(true)
+    }
+  }, 5000)
+
+  it("should keep per-connection session state", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer(
+          {
+            port: serverPort,
+            authorize: (request) => Effect.succeed({ user: request.query.get("user") ?? "guest" }),
+            session: (_request, data) => Effect.succeed({ user: data.user, messages: 0 })
+          },
+          (server) =>
+            Effect.gen(function* () {
+              const client = new WebSocket(`ws://localhost:${serverPort}/?user=alice`)
+              client.onopen = () => {
+                client.send("one")
+                client.send("two")
+              }
+              const connection = yield* Stream.runHead(server.connections).pipe(Effect.flatten)
+              const initial = yield* Ref.get(connection.session)
+
+              yield* Stream.take(connection.messages, 2).pipe(
+                Stream.runForEach(() => Ref.update(connection.session, (session) => ({ ...session, messages: session.messages + 1 })))
+              )
+              client.close()
+
+              return { initial, final: yield* Ref.get(connection.session) }
+            })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value.initial).toEqual({ user: "alice", messages: 0 })
+      expect(result.value.final).toEqual({ user: "alice", messages: 2 })
+    }
+  }, 5000)
+
+  it("should provide the server service from a config-driven layer", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.gen(function* () {
+        const server = yield* WebSocketServerService
+        const client = new WebSocket(`ws://localhost:${serverPort}`)
+        const connection = yield* Stream.runHead(server.connections).pipe(Effect.flatten)
+        client.close()
+        return connection.id
+      }).pipe(
+        Effect.provide(layerWebSocketServerConfig({ port: Config.integer("WS_PORT") })),
+        Effect.withConfigProvider(ConfigProvider.fromMap(new Map([["WS_PORT", String(serverPort)]]))),
+        Effect.timeout(3000)
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(typeof result.value).toBe("string")
+    }
+  }, 5000)
+
+  it("should serve each connection in its own fiber", async () => {
+    const finalized: Array<string> = []
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer({ port: serverPort }, (server) =>
+          Effect.gen(function* () {
+            yield* Effect.fork(
+              server.serve((connection) =>
+                Effect.gen(function* () {
+                  yield* Effect.addFinalizer(() => Effect.sync(() => finalized.push(connection.id)))
+                  yield* Stream.runForEach(connection.messages, (message) =>
+                    Effect.if(String(message) === "boom", {
+                      onTrue: () => Effect.fail("boom"),
+                      onFalse: () => connection.send(`echo:${message}`)
+                    })
+                  )
+                })
+              )
+            )
+
+            const failedCode = yield* Effect.async<number>((resume) => {
+              const client = new WebSocket(`ws://localhost:${serverPort}`)
+              client.onopen = () => client.send("boom")
+              client.onclose = (event) => resume(Effect.succeed(event.code))
+            })
+            const echo = yield* Effect.async<string>((resume) => {
+              const client = new WebSocket(`ws://localhost:${serverPort}`)
+              client.onopen = () => client.send("hi")
+              client.onmessage = (event) => {
+                resume(Effect.succeed(String(event.data)))
+                client.close()
+              }
+            })
+            const failure = yield* Stream.runHead(
+              Stream.filter(server.events, WebSocketServerEvent.$is("connection_error"))
+            ).pipe(Effect.flatten)
+            yield* Effect.sync(() => finalized.length).pipe(
+              Effect.repeat({ until: (count) => count === 2, schedule: Schedule.spaced("10 millis") })
+            )
+
+            return { failedCode, echo, failure }
+          })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value.failedCode).toBe(1011)
+      expect(result.value.echo).toBe("echo:hi")
+      expect(Cause.isFailType(result.value.failure.cause as Cause.Cause<string>)).toBe(true)
+      expect(finalized).toHaveLength(2)
+    }
+  }, 5000)
+
+  it("should not keep messages a connection reader received for server.messages", async () => {
+    let received = 0
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer({ port: serverPort }, (server) =>
+          Effect.gen(function* () {
+            yield* Effect.fork(
+              server.serve((connection) => Stream.runForEach(connection.messages, () => Effect.sync(() => { received++ })))
+            )
+            const client = new WebSocket(`ws://localhost:${serverPort}`)
+            // Let the handler start reading before the messages arrive
+            client.onopen = () => setTimeout(() => {
+              for (let i = 0; i < 200; i++) client.send(String(i))
+              client.close()
+            }, 100)
+
+            yield* Stream.runHead(Stream.filter(server.events, WebSocketServerEvent.$is("disconnected")))
+            yield* Effect.sync(() => received).pipe(
+              Effect.repeat({ until: (count) => count === 200, schedule: Schedule.spaced("10 millis") })
+            )
+            yield* server.close()
+            return Chunk.size(yield* Stream.runCollect(server.messages))
+          })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value).toBe(0)
+    }
+  }, 5000)
+
+  it("should limit how many connections are served at once", async () => {
+    const started: Array<string> = []
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer({ port: serverPort }, (server) =>
+          Effect.gen(function* () {
+            yield* Effect.fork(
+              server.serve((connection) => Effect.zipRight(Effect.sync(() => started.push(connection.id)), Effect.never), {
+                concurrency: 2
+              })
+            )
+
+            const clients = yield* Effect.forEach([0, 1, 2], () =>
+              Effect.async<WebSocket>((resume) => {
+                const client = new WebSocket(`ws://localhost:${serverPort}`)
+                client.onopen = () => resume(Effect.succeed(client))
+              })
+            )
+            yield* Effect.sleep(200)
+            const whileFull = started.length
+
+            // Closing a served connection frees its slot for the waiting one
+            clients[0].close()
+            yield* Effect.sync(() => started.length).pipe(
+              Effect.repeat({ until: (count) => count === 3, schedule: Schedule.spaced("10 millis") })
+            )
+            clients.forEach((client) => client.close())
+            return whileFull
+          })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value).toBe(2)
+    }
+  }, 5000)
+
+  it("should interrupt a handler when its client disconnects", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer({ port: serverPort }, (server) =>
+          Effect.gen(function* () {
+            const interrupted = yield* Deferred.make<{ code: number; reason: string }>()
+            yield* Effect.fork(
+              server.serve((connection) =>
+                Effect.onInterrupt(Effect.never, () =>
+                  Effect.flatMap(connection.closed, (closed) => Deferred.succeed(interrupted, closed))
+                )
+              )
+            )
+
+            const client = new WebSocket(`ws://localhost:${serverPort}`)
+            client.onopen = () => client.close(4001, "bye")
+            return yield* Deferred.await(interrupted)
+          })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value).toEqual({ code: 4001, reason: "bye" })
+    }
+  }, 5000)
+
+  it("should close connections that exceed the rate limit", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer({ port: serverPort, rateLimit: { messages: { rate: 1, burst: 2 } } }, (server) =>
+          Effect.gen(function* () {
+            const closed = yield* Effect.async<{ code: number; reason: string }>((resume) => {
+              const client = new WebSocket(`ws://localhost:${serverPort}`)
+              client.onopen = () => ["a", "b", "c", "d"].forEach((message) => client.send(message))
+              client.onclose = (event) => resume(Effect.succeed({ code: event.code, reason: event.reason }))
+            })
+            const received = yield* Stream.take(server.messages, 2).pipe(Stream.runCollect)
+            return { closed, received: Chunk.toReadonlyArray(received).map((message) => String(message.data)) }
+          })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value.closed).toEqual({ code: 1008, reason: rateLimitExceededReason })
+      expect(result.value.received).toEqual(["a", "b"])
+    }
+  }, 5000)
+
+  it("should delay messages that exceed the rate limit", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer({ port: serverPort, rateLimit: { bytes: { rate: 100, burst: 10 }, policy: "delay" } }, (server) =>
+          Effect.gen(function* () {
+            const client = new WebSocket(`ws://localhost:${serverPort}`)
+            let sentAt = 0
+            client.onopen = () => {
+              sentAt = Date.now()
+              ;["aaaaaaaaaa", "bbbbbbbbbb", "cccccccccc"].forEach((message) => client.send(message))
+            }
+            const received = yield* Stream.take(server.messages, 3).pipe(Stream.runCollect)
+            const elapsed = Date.now() - sentAt
+            client.close()
+            return { elapsed, received: Chunk.toReadonlyArray(received).map((message) => String(message.data)) }
+          })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value.received).toEqual(["aaaaaaaaaa", "bbbbbbbbbb", "cccccccccc"])
+      expect(result.value.elapsed).toBeGreaterThanOrEqual(150)
+    }
+  }, 5000)
+
+  it("should close connections that overflow the delayed message limit", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer(
+          { port: serverPort, rateLimit: { messages: { rate: 1, burst: 1 }, policy: "delay", maxDelayed: 2 } },
+          () =>
+            Effect.async<{ code: number; reason: string }>((resume) => {
+              const client = new WebSocket(`ws://localhost:${serverPort}`)
+              client.onopen = () => ["a", "b", "c", "d"].forEach((message) => client.send(message))
+              client.onclose = (event) => resume(Effect.succeed({ code: event.code, reason: event.reason }))
+            })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value).toEqual({ code: 1008, reason: rateLimitExceededReason })
+    }
+  }, 5000)
+
+  it("should close connections that send messages over the size limit", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer({ port: serverPort, maxMessageSize: 10 }, (server) =>
+          Effect.gen(function* () {
+            const client = new WebSocket(`ws://localhost:${serverPort}`)
+            client.onopen = () => client.send("x".repeat(100))
+            const connection = yield* Stream.runHead(server.connections).pipe(Effect.flatten)
+            const closed = yield* connection.closed
+            const failure = yield* Stream.runHead(
+              Stream.filter(server.events, WebSocketServerEvent.$is("connection_error"))
+            ).pipe(Effect.flatten)
+            return { closed, cause: failure.cause }
+          })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value.closed).toEqual({ code: 1009, reason: messageTooLargeReason })
+      expect(result.value.cause).toEqual(new WebSocketMessageTooLargeError({ limit: 10, size: undefined }))
+    }
+  }, 5000)
+
+  it("should negotiate permessage-deflate when compression is enabled", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer({ port: serverPort, compression: { enabled: true, threshold: 16 } }, (server) =>
+          Effect.gen(function* () {
+            const client = new WebSocket(`ws://localhost:${serverPort}`)
+            const messages: Array<string> = []
+            const received = Effect.async<Array<string>>((resume) => {
+              client.onmessage = (event) => {
+                messages.push(String(event.data))
+                if (messages.length === 3) resume(Effect.succeed(messages))
+              }
+            })
+            const connection = yield* Stream.runHead(server.connections).pipe(Effect.flatten)
+            yield* connection.send("short")
+            yield* connection.send("x".repeat(100))
+            yield* connection.send("forced", { compress: true })
+            yield* received
+            const extensions = client.extensions
+            client.close()
+            return { perMessageDeflate: connection.perMessageDeflate, extensions, messages }
+          })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value.perMessageDeflate).toBe(true)
+      expect(result.value.extensions).toContain("permessage-deflate")
+      expect(result.value.messages).toEqual(["short", "x".repeat(100), "forced"])
+    }
+  }, 5000)
+
+  it("should not negotiate permessage-deflate by default", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        withWebSocketServer({ port: serverPort }, (server) =>
+          Effect.gen(function* () {
+            const client = new WebSocket(`ws://localhost:${serverPort}`)
+            const connection = yield* Stream.runHead(server.connections).pipe(Effect.flatten)
+            yield* Effect.async<void>((resume) => {
+              if (client.readyState === WebSocket.OPEN) resume(Effect.void)
+              else client.onopen = () => resume(Effect.void)
+            })
+            const extensions = client.extensions
+            client.close()
+            return { perMessageDeflate: connection.perMessageDeflate, extensions }
+          })
+        ).pipe(Effect.timeout(3000))
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value.perMessageDeflate).toBe(false)
+      expect(result.value.extensions).toBe("")
+    }
+  }, 5000)
+})
@@ -1,4 +1,4 @@
-import { Effect, Stream } from "effect"
+import { Duration, Effect, Stream } from "effect"
 import { WebSocketClient } from "../src/WebSocketClient"
 
 // Advanced client with reconnection and error handling
@@ -30,19 +30,19 @@ const program = WebSocketClient.withClient(
     yield* Stream.runForEach(client.events, (event) => {
       switch (event._tag) {
         case "open":
-          console.log("🔗 Connection opened")
+          console.log(`🔗 Connection opened (protocol: ${event.protocol || "none"})`)
           break
         case "close":
           console.log(`🔌 Connection closed: ${event.code} ${event.reason}`)
           break
         case "error":
-          console.error("❌ Connection error:", (event as any).reason)
+          console.error("❌ Connection error:", event.cause)
           break
         case "reconnecting":
-          console.log(`🔄 Reconnecting (attempt ${(event as any).attempt})`)
+          console.log(`🔄 Reconnecting (attempt ${event.attempt}) in ${Duration.format(event.delay)}`)
           break
         case "reconnect_failed":
-          console.error("❌ Reconnection failed")
+          console.error(`❌ Reconnection failed after ${event.attempt} attempts`)
           break
       }
       return Effect.succeed(undefined)
@@ -52,12 +52,14 @@ const program = WebSocketClient.withClient(
     yield* Effect.never
   }),
   {
-    enabled: true,
-    initialDelay: 1000,
-    maxDelay: 30000,
-    maxAttempts: 10,
-    backoffMultiplier: 2,
-    jitter: true
+    reconnection: {
+      enabled: true,
+      initialDelay: 1000,
+      maxDelay: 30000,
+      maxAttempts: 10,
+      backoffMultiplier: 2,
+      jitter: true
+    }
   }
 )
 
@@ -45,12 +45,14 @@ const program = Effect.scoped(
       yield* Effect.never
     }),
     {
-      enabled: true,
-      initialDelay: 1000,
-      maxDelay: 30000,
-      maxAttempts: 10,
-      backoffMultiplier: 2,
-      jitter: true
+      reconnection: {
+        enabled: true,
+        initialDelay: 1000,
+        maxDelay: 30000,
+        maxAttempts: 10,
+        backoffMultiplier: 2,
+        jitter: true
+      }
     }
   )
 )
@@ -1,4 +1,4 @@
-import { Effect, Stream, Queue, Scope, Data } from "effect"
+import { Config, ConfigError, Context, Effect, Layer, Stream, Queue, Scope, Data, Either, Schema, ParseResult, Option, Deferred, Duration, Exit, Schedule, ScheduleDecision, ScheduleIntervals, SubscriptionRef } from "effect"
 
 // Errors
 export class WebSocketError extends Data.TaggedError("WebSocketError")<{
@@ -14,6 +14,34 @@ export class WebSocketSendError extends Data.TaggedError("WebSocketSendError")<{
   readonly reason: string
 }> {}
 
+export class WebSocketRequestError extends Data.TaggedError("WebSocketRequestError")<{
+  readonly id: string
+  readonly reason: string
+}> {}
+
+export class WebSocketDecodeError extends Data.TaggedError("WebSocketDecodeError")<{
+  readonly data: WebSocketMessage
+  readonly reason: string
+}> {}
+
+export class WebSocketEncodeError extends Data.TaggedError("WebSocketEncodeError")<{
+  readonly reason: string
+}> {}
+
+/**
+ * A message exceeded the `maxMessageSize` limit; the connection is closed with 1009 (Message Too Big).
+ * `size` is undefined when the runtime rejected the message without reporting its size.
+ */
+export class WebSocketMessageTooLargeError extends Data.TaggedError("WebSocketMessageTooLargeError")<{
+  readonly limit: number
+  readonly size: number | undefined
+}> {}
+
+/**
+ * Close reason used with code 1009 when a message exceeds `maxMessageSize`.
+ */
+export const messageTooLargeReason = "Message too big"
+
 /**
  * Supported WebSocket message types.
  * Can be a string, binary ArrayBuffer, or Blob.
@@ -38,22 +66,452 @@ export interface ReconnectionOptions {
   readonly jitter: boolean
 }
 
+const defaultReconnectionOptions: ReconnectionOptions = {
+  enabled: false,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  maxAttempts: 10,
+  backoffMultiplier: 2,
+  jitter: true
+}
+
 /**
- * Events emitted by the WebSocket client during its lifecycle.
+ * Details of the close that triggered a reconnection attempt.
+ * This is the input of the reconnection schedule, so schedules can react to the last close.
+ */
+export interface CloseInfo {
+  /** Close code */
+  readonly code: number
+  /** Close reason */
+  readonly reason: string
+}
+
+/**
+ * Schedule that drives automatic reconnection.
+ * Each recurrence is one reconnection attempt, delayed by the schedule; when the schedule
+ * completes the client gives up and emits `reconnect_failed`.
+ *
+ * @example
+ * ```typescript
+ * const reconnection = Schedule.fibonacci("500 millis").pipe(
+ *   Schedule.whileInput((close: CloseInfo) => close.code !== 1008),
+ *   Schedule.intersect(Schedule.recurs(20))
+ * )
+ * ```
+ */
+export type ReconnectionSchedule = Schedule.Schedule<unknown, CloseInfo>
+
+/**
+ * Compiles reconnection options into the equivalent schedule: exponential backoff capped at
+ * `maxDelay`, optionally jittered by ±25%, limited to `maxAttempts` attempts (0 = unlimited).
+ * The `enabled` flag is ignored.
+ */
+export const reconnectionSchedule = (options: Partial<ReconnectionOptions> = {}): ReconnectionSchedule => {
+  const { initialDelay, maxDelay, maxAttempts, backoffMultiplier, jitter } = {
+    ...defaultReconnectionOptions,
+    ...options
+  }
+
+  let schedule: ReconnectionSchedule = Schedule.exponential(initialDelay, backoffMultiplier).pipe(
+    Schedule.modifyDelay((delay) => Duration.min(delay, Duration.millis(maxDelay)))
+  )
+  if (jitter) {
+    schedule = Schedule.jitteredWith(schedule, { min: 0.75, max: 1.25 })
+  }
+  if (maxAttempts > 0) {
+    schedule = Schedule.intersect(schedule, Schedule.recurs(maxAttempts))
+  }
+  return schedule
+}
+
+const resolveReconnectionSchedule = (
+  reconnection?: Partial<ReconnectionOptions> | ReconnectionSchedule
+): ReconnectionSchedule | undefined => {
+  if (reconnection === undefined) return undefined
+  if (Schedule.isSchedule(reconnection)) return reconnection as ReconnectionSchedule
+  return reconnection.enabled ? reconnectionSchedule(reconnection) : undefined
+}
+
+/**
+ * Configuration options for the client heartbeat.
+ * When enabled, the client periodically sends `message` and expects a reply matching `isPong`
+ * within `timeout`; a missed pong is treated as a lost connection.
+ */
+export interface HeartbeatOptions {
+  /** Whether the heartbeat is enabled */
+  readonly enabled: boolean
+  /** Delay between pings (milliseconds) */
+  readonly interval: number
+  /** Maximum time to wait for a pong before the connection is considered lost (milliseconds) */
+  readonly timeout: number
+  /** Payload sent as a ping */
+  readonly message: string | ArrayBuffer
+  /** Returns true for messages that answer a ping; matching messages are not emitted on `messages` */
+  readonly isPong: (message: WebSocketMessage) => boolean
+}
+
+const defaultHeartbeatOptions: HeartbeatOptions = {
+  enabled: false,
+  interval: 30000,
+  timeout: 10000,
+  message: "ping",
+  isPong: (message) => message === "pong"
+}
+
+/**
+ * Configuration options for buffering outgoing messages while reconnecting.
+ * When enabled, `send` queues messages instead of failing while a reconnection is in progress,
+ * and the queued messages are sent in order once the connection is open again.
+ */
+export interface OutboxOptions {
+  /** Whether sends are buffered while reconnecting */
+  readonly enabled: boolean
+  /** Maximum number of buffered messages; further sends fail with WebSocketSendError */
+  readonly maxSize: number
+  /** Maximum time a message may wait in the outbox (milliseconds, 0 = unlimited) */
+  readonly maxAge: number
+  /**
+   * What to do with messages older than `maxAge` when the outbox is flushed:
+   * - `drop`: discard them
+   * - `event`: discard them and emit an `outbox_expired` event carrying the message
+   * - `send`: send them anyway
+   */
+  readonly onExpired: "drop" | "event" | "send"
+}
+
+const defaultOutboxOptions: OutboxOptions = {
+  enabled: false,
+  maxSize: 100,
+  maxAge: 0,
+  onExpired: "drop"
+}
+
+/**
+ * Configuration options for matching replies to requests made with `client.request`.
+ */
+export interface CorrelationOptions {
+  /**
+   * Extracts the correlation id from an incoming message, or returns undefined when the message
+   * is not a reply. Defaults to reading the string `id` field of a JSON object.
+   */
+  readonly getId: (message: WebSocketMessage) => string | undefined
+  /** Default time to wait for a reply (milliseconds) */
+  readonly timeout: number
+}
+
+const getJsonId = (message: WebSocketMessage): string | undefined => {
+  if (typeof message !== "string") return undefined
+  try {
+    const value = JSON.parse(message)
+    return typeof value?.id === "string" ? value.id : undefined
+  } catch {
+    return undefined
+  }
+}
+
+const defaultCorrelationOptions: CorrelationOptions = {
+  getId: getJsonId,
+  timeout: 30000
+}
+
+/**
+ * Strategy used by a client queue when its consumer falls behind.
+ *
+ * - `unbounded`: keeps every item (default)
+ * - `sliding`: discards the oldest items to make room for new ones
+ * - `dropping`: discards new items while the queue is full
+ *
+ * Socket callbacks cannot wait for the consumer, so a full queue always discards items.
+ */
+export type QueueStrategy =
+  | { readonly strategy: "unbounded" }
+  | { readonly strategy: "sliding" | "dropping"; readonly capacity: number }
+
+/**
+ * Queue strategies for the client's message and event streams.
+ */
+export interface QueueOptions {
+  /** Strategy for the queue backing `client.messages` */
+  readonly messages: QueueStrategy
+  /** Strategy for the queue backing `client.events` */
+  readonly events: QueueStrategy
+}
+
+const defaultQueueOptions: QueueOptions = {
+  messages: { strategy: "unbounded" },
+  events: { strategy: "unbounded" }
+}
+
+/**
+ * Signal emitted when an item arrives while a client queue is full.
+ */
+export interface QueueOverflow {
+  /** The queue that overflowed */
+  readonly queue: "messages" | "events"
+  /** The strategy applied to the queue */
+  readonly strategy: "sliding" | "dropping"
+  /** The capacity of the queue */
+  readonly capacity: number
+  /** Total number of items that arrived while this queue was full */
+  readonly count: number
+}
+
+const makeQueue = <A>(options: QueueStrategy): Effect.Effect<Queue.Queue<A>> => {
+  switch (options.strategy) {
+    case "unbounded":
+      return Queue.unbounded<A>()
+    case "sliding":
+      return Queue.sliding<A>(options.capacity)
+    case "dropping":
+      return Queue.dropping<A>(options.capacity)
+  }
+}
+
+/**
+ * Options for creating a WebSocket client.
+ *
+ * @example
+ * ```typescript
+ * const client = yield* WebSocketClient.make("wss://example.com/feed", {
+ *   protocols: ["v2.feed"],
+ *   connectTimeout: 5000,
+ *   binaryType: "arraybuffer",
+ *   reconnection: { enabled: true, maxAttempts: 0 },
+ *   heartbeat: { enabled: true, interval: 15000 }
+ * })
+ * ```
+ */
+export interface ClientOptions {
+  /** Subprotocols to negotiate with the server */
+  readonly protocols?: string | string[]
+  /** Maximum time to wait for each connection attempt to open (milliseconds, default: 10000) */
+  readonly connectTimeout?: number
+  /** Automatic reconnection settings, or a schedule driving reconnection (default: disabled) */
+  readonly reconnection?: Partial<ReconnectionOptions> | ReconnectionSchedule
+  /** How binary messages are delivered (default: the runtime default) */
+  readonly binaryType?: "arraybuffer" | "blob"
+  /**
+   * Extra HTTP headers for the opening handshake.
+   * Supported by Node.js and Bun; browsers do not allow custom handshake headers.
+   */
+  readonly headers?: Record<string, string>
+  /** Queue strategies for `messages` and `events` (default: unbounded) */
+  readonly queues?: Partial<QueueOptions>
+  /** Keepalive settings (default: disabled) */
+  readonly heartbeat?: Partial<HeartbeatOptions>
+  /** Buffering of sends while reconnecting (default: disabled) */
+  readonly outbox?: Partial<OutboxOptions>
+  /** How `client.request` matches replies */
+  readonly correlation?: Partial<CorrelationOptions>
+  /**
+   * Largest message accepted, in bytes (default: unlimited). A larger message is discarded,
+   * reported as an `error` event carrying `WebSocketMessageTooLargeError`, and the connection
+   * is closed: the server receives 4009 and the client reports 1009 (Message Too Big).
+   */
+  readonly maxMessageSize?: number
+}
+
+/**
+ * Client options with defaults applied.
  */
-export interface WebSocketEvent {
-  /** The type of event */
-  readonly _tag: "open" | "close" | "error" | "message" | "reconnecting" | "reconnect_failed"
-  /** Message data (for message events) */
-  readonly data?: WebSocketMessage
-  /** Close code (for close events) */
-  readonly code?: number
-  /** Close reason (for close events) */
-  readonly reason?: string
-  /** Reconnection attempt number (for reconnection events) */
-  readonly attempt?: number
+interface ResolvedClientOptions {
+  readonly protocols?: string | string[]
+  readonly connectTimeout: number
+  readonly reconnection?: ReconnectionSchedule
+  readonly binaryType?: "arraybuffer" | "blob"
+  readonly headers?: Record<string, string>
+  readonly queues: QueueOptions
+  readonly heartbeat: HeartbeatOptions
+  readonly outbox: OutboxOptions
+  readonly correlation: CorrelationOptions
+  readonly maxMessageSize?: number
 }
 
+const resolveClientOptions = (options: ClientOptions = {}): ResolvedClientOptions => ({
+  protocols: options.protocols,
+  connectTimeout: options.connectTimeout ?? 10000,
+  reconnection: resolveReconnectionSchedule(options.reconnection),
+  binaryType: options.binaryType,
+  headers: options.headers,
+  queues: { ...defaultQueueOptions, ...options.queues },
+  heartbeat: { ...defaultHeartbeatOptions, ...options.heartbeat },
+  outbox: { ...defaultOutboxOptions, ...options.outbox },
+  correlation: { ...defaultCorrelationOptions, ...options.correlation },
+  maxMessageSize: options.maxMessageSize
+})
+
+/**
+ * Handshake settings passed to a `WebSocketConstructor`.
+ */
+export interface WebSocketInit {
+  readonly protocols?: string | string[]
+  readonly headers?: Record<string, string>
+}
+
+/**
+ * Service that opens the client's sockets, for the initial connection and for
+ * every reconnection attempt. Provide it to substitute the `ws` package,
+ * instrumented sockets or fakes in tests. Without it, the global `WebSocket`
+ * constructor is used.
+ *
+ * @example
+ * ```typescript
+ * import WS from "ws"
+ *
+ * const WsConstructor = Layer.succeed(
+ *   WebSocketConstructor,
+ *   (url, init) => new WS(url, init.protocols, { headers: init.headers }) as unknown as WebSocket
+ * )
+ *
+ * WebSocketClient.make("ws://localhost:8080").pipe(Effect.provide(WsConstructor))
+ * ```
+ */
+export class WebSocketConstructor extends Context.Tag("effect-websocket/WebSocketConstructor")<
+  WebSocketConstructor,
+  (url: string, init: WebSocketInit) => WebSocket
+>() {}
+
+const globalWebSocketConstructor: WebSocketConstructor["Type"] = (url, init) =>
+  // Node.js and Bun accept an init object carrying handshake headers; Bun requires its protocols to be an array
+  init.headers
+    ? new globalThis.WebSocket(url, {
+      headers: init.headers,
+      protocols: typeof init.protocols === "string" ? [init.protocols] : init.protocols
+    } as unknown as string[])
+    : new globalThis.WebSocket(url, init.protocols)
+
+/**
+ * `WebSocketConstructor` backed by the global `WebSocket` constructor.
+ */
+export const layerWebSocketConstructorGlobal: Layer.Layer<WebSocketConstructor> = Layer.succeed(
+  WebSocketConstructor,
+  globalWebSocketConstructor
+)
+
+// Size of a message in bytes, counting strings as UTF-8
+const messageSize = (data: WebSocketMessage): number => {
+  if (typeof data !== "string") {
+    return data instanceof ArrayBuffer ? data.byteLength : data.size
+  }
+  let size = 0
+  for (let i = 0; i < data.length; i++) {
+    const code = data.charCodeAt(i)
+    if (code < 0x80) size += 1
+    else if (code < 0x800) size += 2
+    else if ((code & 0xfc00) === 0xd800 && (data.charCodeAt(i + 1) & 0xfc00) === 0xdc00) {
+      size += 4
+      i++
+    } else size += 3
+  }
+  return size
+}
+
+// Ready states, so sockets from other constructors work without a global WebSocket
+const CONNECTING = 0
+const OPEN = 1
+
+const openSocket = (
+  makeSocket: WebSocketConstructor["Type"],
+  url: string,
+  options: ResolvedClientOptions
+): WebSocket => {
+  const ws = makeSocket(url, { protocols: options.protocols, headers: options.headers })
+  if (options.binaryType) {
+    // The ambient WebSocket type differs between the DOM, Node.js and Bun typings
+    ws.binaryType = options.binaryType as WebSocket["binaryType"]
+  }
+  return ws
+}
+
+/**
+ * Events emitted by the WebSocket client during its lifecycle.
+ * Switching on `_tag` narrows the event to the fields of that variant.
+ */
+export type WebSocketEvent = Data.TaggedEnum<{
+  /** The connection was opened */
+  open: {
+    /** The subprotocol selected by the server ("" if none) */
+    readonly protocol: string
+    /** The extensions selected by the server ("" if none) */
+    readonly extensions: string
+  }
+  /** The connection was closed */
+  close: {
+    /** Close code */
+    readonly code: number
+    /** Close reason */
+    readonly reason: string
+  }
+  /** The underlying socket reported an error */
+  error: {
+    /** The error reported by the runtime */
+    readonly cause: unknown
+  }
+  /** A message was received */
+  message: {
+    /** Message data */
+    readonly data: WebSocketMessage
+  }
+  /** A reconnection attempt was scheduled */
+  reconnecting: {
+    /** Reconnection attempt number */
+    readonly attempt: number
+    /** Delay before the attempt is made */
+    readonly delay: Duration.Duration
+  }
+  /** Reconnection was abandoned */
+  reconnect_failed: {
+    /** Number of reconnection attempts made */
+    readonly attempt: number
+  }
+  /** A buffered message was discarded without being sent */
+  outbox_expired: {
+    /** The discarded message */
+    readonly data: WebSocketMessage
+  }
+}>
+
+/**
+ * Constructors and helpers (`$is`, `$match`) for WebSocketEvent.
+ */
+export const WebSocketEvent = Data.taggedEnum<WebSocketEvent>()
+
+/**
+ * Connection state of a WebSocket client.
+ */
+export type ConnectionState = Data.TaggedEnum<{
+  /** A socket is being opened */
+  Connecting: {}
+  /** The connection is open */
+  Open: {}
+  /** The client is closing the connection */
+  Closing: {}
+  /** The connection is closed and no reconnection will be attempted */
+  Closed: {
+    /** Close code */
+    readonly code: number
+    /** Close reason */
+    readonly reason: string
+  }
+  /** The connection was lost and a reconnection attempt is scheduled */
+  Reconnecting: {
+    /** Reconnection attempt number */
+    readonly attempt: number
+    /** Delay before the attempt is made */
+    readonly nextDelay: Duration.Duration
+  }
+  /** Reconnection was abandoned */
+  Failed: {
+    /** Number of reconnection attempts made */
+    readonly attempts: number
+  }
+}>
+
+/**
+ * Constructors and helpers (`$is`, `$match`) for ConnectionState.
+ */
+export const ConnectionState = Data.taggedEnum<ConnectionState>()
+
 /**
  * WebSocket client interface for Effect-TS.
  * Provides methods for connecting to WebSocket servers, sending/receiving messages,
@@ -92,6 +550,19 @@ export interface WebSocketClient {
    */
   readonly send: (message: WebSocketMessage) => Effect.Effect<void, WebSocketSendError>
 
+  /**
+   * Sends a request and waits for the reply carrying the same correlation id.
+   * Replies are matched with `CorrelationOptions.getId` and are not emitted on `messages`.
+   * @param make - Builds the message to send from the generated correlation id
+   * @param timeout - Optional time to wait for the reply (defaults to `CorrelationOptions.timeout`)
+   * @returns An Effect that succeeds with the reply or fails with WebSocketRequestError when the
+   * request times out or the connection closes
+   */
+  readonly request: <E = never>(
+    make: (id: string) => WebSocketMessage | Effect.Effect<WebSocketMessage, E>,
+    timeout?: Duration.DurationInput
+  ) => Effect.Effect<WebSocketMessage, E | WebSocketSendError | WebSocketRequestError>
+
   /**
    * Stream of messages received from the server.
    */
@@ -102,6 +573,12 @@ export interface WebSocketClient {
    */
   readonly events: Stream.Stream<WebSocketEvent, WebSocketError>
 
+  /**
+   * Stream of overflow signals raised when the message or event queue is full.
+   * Only the most recent signals are retained.
+   */
+  readonly overflows: Stream.Stream<QueueOverflow, never>
+
   /**
    * Closes the WebSocket connection.
    * @param code - Optional close code
@@ -116,6 +593,22 @@ export interface WebSocketClient {
    */
   readonly readyState: Effect.Effect<number, never>
 
+  /**
+   * Gets the subprotocol selected by the server ("" if none).
+   */
+  readonly protocol: Effect.Effect<string, never>
+
+  /**
+   * Gets the extensions selected by the server ("" if none).
+   */
+  readonly extensions: Effect.Effect<string, never>
+
+  /**
+   * The connection state, including reconnection progress.
+   * Read it with `SubscriptionRef.get` or subscribe to `state.changes`; it is updated by the client only.
+   */
+  readonly state: SubscriptionRef.SubscriptionRef<ConnectionState>
+
   /**
    * Checks if the client is currently attempting to reconnect.
    */
@@ -133,33 +626,37 @@ export class WebSocketClientImpl implements WebSocketClient {
   public isCurrentlyReconnecting = false
   public manualClose = false
   public reconnectTimeoutId?: NodeJS.Timeout
+  private reconnectScheduled = false
+  private reconnectionState: Option.Option<unknown> = Option.none()
+  private heartbeatIntervalId?: NodeJS.Timeout
+  private heartbeatTimeoutId?: NodeJS.Timeout
+  private outbox: Array<{ readonly message: WebSocketMessage; readonly queuedAt: number }> = []
+  private requestCounter = 0
+  private readonly pendingRequests = new Map<string, Deferred.Deferred<WebSocketMessage, WebSocketRequestError>>()
+  private readonly overflowCounts = { messages: 0, events: 0 }
 
   constructor(
     public ws: WebSocket,
     private readonly messageQueue: Queue.Queue<WebSocketMessage>,
     private readonly eventQueue: Queue.Queue<WebSocketEvent>,
+    private readonly stateRef: SubscriptionRef.SubscriptionRef<ConnectionState>,
+    private readonly overflowQueue: Queue.Queue<QueueOverflow>,
     private readonly scope: Scope.Scope,
     private readonly url: string,
-    private readonly protocols?: string | string[],
-    private readonly reconnectionOptions: ReconnectionOptions = {
-      enabled: false,
-      initialDelay: 1000,
-      maxDelay: 30000,
-      maxAttempts: 10,
-      backoffMultiplier: 2,
-      jitter: true
-    }
+    private readonly options: ResolvedClientOptions,
+    private readonly makeSocket: WebSocketConstructor["Type"]
   ) {}
 
   send(message: WebSocketMessage): Effect.Effect<void, WebSocketSendError> {
     return Effect.try({
       try: () => {
-        if (this.ws.readyState === WebSocket.OPEN) {
-          if (message instanceof Blob) {
-            message.arrayBuffer().then(buffer => this.ws.send(buffer))
-          } else {
-            this.ws.send(message)
+        if (this.ws.readyState === OPEN) {
+          this.sendNow(message)
+        } else if (this.options.outbox.enabled && this.isCurrentlyReconnecting) {
+          if (this.outbox.length >= this.options.outbox.maxSize) {
+            throw new Error("Outbox is full")
           }
+          this.outbox.push({ message, queuedAt: Date.now() })
         } else {
           throw new Error("WebSocket is not connected")
         }
@@ -168,6 +665,35 @@ export class WebSocketClientImpl implements WebSocketClient {
     })
   }
 
+  request<E = never>(
+    make: (id: string) => WebSocketMessage | Effect.Effect<WebSocketMessage, E>,
+    timeout: Duration.DurationInput = this.options.correlation.timeout
+  ): Effect.Effect<WebSocketMessage, E | WebSocketSendError | WebSocketRequestError> {
+    return Effect.flatMap(Deferred.make<WebSocketMessage, WebSocketRequestError>(), (deferred) => {
+      const id = String(++this.requestCounter)
+      const message = make(id)
+      this.pendingRequests.set(id, deferred)
+
+      return (Effect.isEffect(message) ? message : Effect.succeed(message)).pipe(
+        Effect.flatMap((message) => this.send(message)),
+        Effect.zipRight(Deferred.await(deferred)),
+        Effect.timeoutFail({
+          duration: timeout,
+          onTimeout: () => new WebSocketRequestError({ id, reason: "Request timed out" })
+        }),
+        Effect.ensuring(Effect.sync(() => { this.pendingRequests.delete(id) }))
+      )
+    })
+  }
+
+  private sendNow(message: WebSocketMessage): void {
+    if (message instanceof Blob) {
+      message.arrayBuffer().then(buffer => this.ws.send(buffer))
+    } else {
+      this.ws.send(message)
+    }
+  }
+
   get messages(): Stream.Stream<WebSocketMessage, WebSocketError> {
     return Stream.fromQueue(this.messageQueue)
   }
@@ -176,17 +702,32 @@ export class WebSocketClientImpl implements WebSocketClient {
     return Stream.fromQueue(this.eventQueue)
   }
 
+  get overflows(): Stream.Stream<QueueOverflow, never> {
+    return Stream.fromQueue(this.overflowQueue)
+  }
+
   close(code?: number, reason?: string): Effect.Effect<void, WebSocketError> {
-    this.manualClose = true
-    if (this.reconnectTimeoutId) {
-      clearTimeout(this.reconnectTimeoutId)
-      this.reconnectTimeoutId = undefined
-    }
-    return Effect.try({
-      try: () => {
-        this.ws.close(code, reason)
-      },
-      catch: (error) => new WebSocketError({ reason: (error as Error).message })
+    return Effect.suspend(() => {
+      this.manualClose = true
+      this.stopHeartbeat()
+      this.discardOutbox()
+      this.failPendingRequests("Connection closed")
+      if (this.reconnectTimeoutId) {
+        clearTimeout(this.reconnectTimeoutId)
+        this.reconnectTimeoutId = undefined
+      }
+      this.reconnectScheduled = false
+      if (this.ws.readyState === OPEN || this.ws.readyState === CONNECTING) {
+        this.setState(ConnectionState.Closing())
+      } else {
+        this.setState(ConnectionState.Closed({ code: code ?? 1000, reason: reason ?? "" }))
+      }
+      return Effect.try({
+        try: () => {
+          this.ws.close(code, reason)
+        },
+        catch: (error) => new WebSocketError({ reason: (error as Error).message })
+      })
     })
   }
 
@@ -194,6 +735,23 @@ export class WebSocketClientImpl implements WebSocketClient {
     return Effect.succeed(this.ws.readyState)
   }
 
+  get protocol(): Effect.Effect<string, never> {
+    return Effect.sync(() => this.ws.protocol)
+  }
+
+  get extensions(): Effect.Effect<string, never> {
+    return Effect.sync(() => this.ws.extensions)
+  }
+
+  get state(): SubscriptionRef.SubscriptionRef<ConnectionState> {
+    return this.stateRef
+  }
+
+  private setState(state: ConnectionState): void {
+    // Only the client writes the ref, so the update never waits on its lock
+    Effect.runSync(SubscriptionRef.set(this.stateRef, state))
+  }
+
   get isReconnecting(): Effect.Effect<boolean, never> {
     return Effect.succeed(this.isCurrentlyReconnecting)
   }
@@ -202,128 +760,276 @@ export class WebSocketClientImpl implements WebSocketClient {
     return Effect.succeed(this.reconnectAttemptsCount)
   }
 
+  private offerMessage(message: WebSocketMessage): void {
+    this.offer("messages", this.messageQueue, message)
+  }
+
+  private offerEvent(event: WebSocketEvent): void {
+    this.offer("events", this.eventQueue, event)
+  }
+
+  private offer<A>(name: "messages" | "events", queue: Queue.Queue<A>, value: A): void {
+    const options = this.options.queues[name]
+    if (options.strategy === "unbounded") {
+      Queue.unsafeOffer(queue, value)
+      return
+    }
+
+    const size = Option.getOrElse(queue.unsafeSize(), () => 0)
+    if (size >= options.capacity) {
+      this.overflowCounts[name]++
+      Effect.runSync(Queue.offer(this.overflowQueue, {
+        queue: name,
+        strategy: options.strategy,
+        capacity: options.capacity,
+        count: this.overflowCounts[name]
+      }))
+    }
+    // Offers to sliding and dropping queues complete at once; unsafeOffer would drop the new item instead of sliding
+    Effect.runSync(Queue.offer(queue, value))
+  }
+
   public setupEventListeners(): void {
     this.ws.onopen = () => {
-      this.isCurrentlyReconnecting = false
-      this.reconnectAttemptsCount = 0
-      Queue.unsafeOffer(this.eventQueue, { _tag: "open" })
+      this.handleOpen()
     }
 
     this.ws.onclose = (event) => {
-      Queue.unsafeOffer(this.eventQueue, {
-        _tag: "close",
-        code: event.code,
-        reason: event.reason
-      })
-
-      // Attempt reconnection if enabled and not manually closed
-      if (!this.manualClose && this.reconnectionOptions.enabled) {
-        this.attemptReconnection()
-      }
+      this.handleClose(event.code, event.reason)
     }
 
     this.ws.onerror = (event) => {
-      Queue.unsafeOffer(this.eventQueue, { _tag: "error" })
+      this.offerEvent(WebSocketEvent.error({ cause: event }))
     }
 
     this.ws.onmessage = (event) => {
-      Queue.unsafeOffer(this.messageQueue, event.data)
-      Queue.unsafeOffer(this.eventQueue, { _tag: "message", data: event.data })
+      this.handleMessage(event.data)
     }
   }
 
-  private attemptReconnection(): void {
-    if (this.isCurrentlyReconnecting || this.manualClose) return
+  private handleOpen(): void {
+    this.isCurrentlyReconnecting = false
+    this.reconnectAttemptsCount = 0
+    this.reconnectionState = Option.none()
+    this.offerEvent(WebSocketEvent.open({ protocol: this.ws.protocol, extensions: this.ws.extensions }))
+    this.setState(ConnectionState.Open())
+    this.flushOutbox()
+    this.startHeartbeat()
+  }
 
-    const maxAttempts = this.reconnectionOptions.maxAttempts
-    if (maxAttempts > 0 && this.reconnectAttemptsCount >= maxAttempts) {
-      Queue.unsafeOffer(this.eventQueue, {
-        _tag: "reconnect_failed",
-        attempt: this.reconnectAttemptsCount
-      })
+  private handleClose(code: number, reason: string): void {
+    this.stopHeartbeat()
+    this.failPendingRequests("Connection closed")
+    this.offerEvent(WebSocketEvent.close({ code, reason }))
+    if (!this.options.reconnection || this.manualClose) {
+      this.setState(ConnectionState.Closed({ code, reason }))
+    }
+
+    // Attempt reconnection if enabled and not manually closed
+    this.attemptReconnection({ code, reason })
+  }
+
+  private handleMessage(data: WebSocketMessage): void {
+    const limit = this.options.maxMessageSize
+    const size = limit === undefined ? 0 : messageSize(data)
+    if (limit !== undefined && size > limit) {
+      this.offerEvent(WebSocketEvent.error({ cause: new WebSocketMessageTooLargeError({ limit, size }) }))
+      // Clients may only send 1000 or 3000-4999, so 1009 is reported locally and 4009 sent to the server
+      this.detachSocket(4009, messageTooLargeReason)
+      this.handleClose(1009, messageTooLargeReason)
       return
     }
+    if (this.options.heartbeat.enabled && this.options.heartbeat.isPong(data)) {
+      if (this.heartbeatTimeoutId) {
+        clearTimeout(this.heartbeatTimeoutId)
+        this.heartbeatTimeoutId = undefined
+      }
+      return
+    }
+    if (this.pendingRequests.size > 0) {
+      const id = this.options.correlation.getId(data)
+      const deferred = id === undefined ? undefined : this.pendingRequests.get(id)
+      if (id !== undefined && deferred) {
+        this.pendingRequests.delete(id)
+        Deferred.unsafeDone(deferred, Exit.succeed(data))
+        return
+      }
+    }
+    this.offerMessage(data)
+    this.offerEvent(WebSocketEvent.message({ data }))
+  }
 
-    this.isCurrentlyReconnecting = true
-    this.reconnectAttemptsCount++
+  public failPendingRequests(reason: string): void {
+    for (const [id, deferred] of this.pendingRequests) {
+      Deferred.unsafeDone(deferred, Exit.fail(new WebSocketRequestError({ id, reason })))
+    }
+    this.pendingRequests.clear()
+  }
 
-    const delay = this.calculateReconnectionDelay()
-    this.reconnectTimeoutId = setTimeout(() => {
-      this.performReconnection()
-    }, delay)
+  private flushOutbox(): void {
+    const entries = this.outbox
+    this.outbox = []
+    const now = Date.now()
+    const { maxAge, onExpired } = this.options.outbox
 
-    Queue.unsafeOffer(this.eventQueue, {
-      _tag: "reconnecting",
-      attempt: this.reconnectAttemptsCount
-    })
+    for (const { message, queuedAt } of entries) {
+      const expired = maxAge > 0 && now - queuedAt > maxAge
+      if (!expired || onExpired === "send") {
+        this.sendNow(message)
+      } else if (onExpired === "event") {
+        this.offerEvent(WebSocketEvent.outbox_expired({ data: message }))
+      }
+    }
   }
 
-  private calculateReconnectionDelay(): number {
-    const { initialDelay, maxDelay, backoffMultiplier, jitter } = this.reconnectionOptions
-    const attempt = this.reconnectAttemptsCount - 1
+  public discardOutbox(): void {
+    const entries = this.outbox
+    this.outbox = []
+    if (this.options.outbox.onExpired === "event") {
+      for (const { message } of entries) {
+        this.offerEvent(WebSocketEvent.outbox_expired({ data: message }))
+      }
+    }
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat()
+    if (!this.options.heartbeat.enabled) return
+
+    this.heartbeatIntervalId = setInterval(() => {
+      // Skip this tick while a ping is still waiting for its pong
+      if (this.ws.readyState !== OPEN || this.heartbeatTimeoutId) return
+
+      try {
+        this.ws.send(this.options.heartbeat.message)
+      } catch {
+        // A failed ping is detected by the pong timeout below
+      }
+      this.heartbeatTimeoutId = setTimeout(() => {
+        this.handleHeartbeatTimeout()
+      }, this.options.heartbeat.timeout)
+    }, this.options.heartbeat.interval)
+  }
+
+  public stopHeartbeat(): void {
+    if (this.heartbeatIntervalId) {
+      clearInterval(this.heartbeatIntervalId)
+      this.heartbeatIntervalId = undefined
+    }
+    if (this.heartbeatTimeoutId) {
+      clearTimeout(this.heartbeatTimeoutId)
+      this.heartbeatTimeoutId = undefined
+    }
+  }
 
-    let delay = initialDelay * Math.pow(backoffMultiplier, attempt)
-    delay = Math.min(delay, maxDelay)
+  private handleHeartbeatTimeout(): void {
+    // A half-open socket may never complete the close handshake, so detach it and
+    // report the loss immediately instead of waiting for its close event
+    this.detachSocket(4000, "Heartbeat timeout")
+    this.handleClose(1006, "Heartbeat timeout")
+  }
 
-    if (jitter) {
-      // Add random jitter (±25% of delay)
-      const jitterAmount = delay * 0.25
-      delay += (Math.random() - 0.5) * 2 * jitterAmount
+  public detachSocket(code?: number, reason?: string): void {
+    const ws = this.ws
+    ws.onopen = null
+    ws.onclose = null
+    ws.onerror = null
+    ws.onmessage = null
+    try {
+      ws.close(code, reason)
+    } catch {
+      // The socket is being discarded either way
     }
+  }
+
+  private attemptReconnection(info: CloseInfo): void {
+    const schedule = this.options.reconnection
+    if (!schedule || this.reconnectScheduled || this.manualClose) return
+
+    this.reconnectScheduled = true
+    this.isCurrentlyReconnecting = true
+
+    const now = Date.now()
+    const state = Option.getOrElse(this.reconnectionState, () => schedule.initial)
+    Effect.runFork(
+      Effect.map(schedule.step(now, info, state), ([nextState, _, decision]) => {
+        if (this.manualClose) {
+          this.reconnectScheduled = false
+          this.setState(ConnectionState.Closed(info))
+          return
+        }
+
+        if (ScheduleDecision.isDone(decision)) {
+          this.reconnectScheduled = false
+          this.isCurrentlyReconnecting = false
+          this.offerEvent(WebSocketEvent.reconnect_failed({ attempt: this.reconnectAttemptsCount }))
+          this.setState(ConnectionState.Failed({ attempts: this.reconnectAttemptsCount }))
+          this.discardOutbox()
+          return
+        }
+
+        this.reconnectionState = Option.some(nextState)
+        this.reconnectAttemptsCount++
 
-    return Math.max(0, delay)
+        const delay = Math.max(0, ScheduleIntervals.start(decision.intervals) - now)
+        this.reconnectTimeoutId = setTimeout(() => {
+          this.reconnectTimeoutId = undefined
+          this.reconnectScheduled = false
+          this.performReconnection()
+        }, delay)
+
+        this.offerEvent(WebSocketEvent.reconnecting({
+          attempt: this.reconnectAttemptsCount,
+          delay: Duration.millis(delay)
+        }))
+        this.setState(ConnectionState.Reconnecting({
+          attempt: this.reconnectAttemptsCount,
+          nextDelay: Duration.millis(delay)
+        }))
+      })
+    )
   }
 
   private performReconnection(): void {
     try {
       // Create new WebSocket connection
-      this.ws = new WebSocket(this.url, this.protocols)
+      this.ws = openSocket(this.makeSocket, this.url, this.options)
+      this.setState(ConnectionState.Connecting())
       this.setupEventListeners()
 
       // Wait for connection or timeout
       const timeout = setTimeout(() => {
-        if (this.ws.readyState !== WebSocket.OPEN) {
+        if (this.ws.readyState !== OPEN) {
           this.ws.close()
         }
-      }, 10000) // 10 second timeout
+      }, this.options.connectTimeout)
 
       this.ws.onopen = () => {
         clearTimeout(timeout)
-        this.isCurrentlyReconnecting = false
-        this.reconnectAttemptsCount = 0
-        Queue.unsafeOffer(this.eventQueue, { _tag: "open" })
+        this.handleOpen()
       }
 
       this.ws.onclose = (event) => {
         clearTimeout(timeout)
-        Queue.unsafeOffer(this.eventQueue, {
-          _tag: "close",
-          code: event.code,
-          reason: event.reason
-        })
-
-        // Continue reconnection attempts if still enabled
-        if (!this.manualClose && this.reconnectionOptions.enabled) {
-          this.attemptReconnection()
-        }
+        this.handleClose(event.code, event.reason)
       }
 
       this.ws.onerror = () => {
         clearTimeout(timeout)
-        // Error will be handled by onclose
+        // Some runtimes never emit close for a socket that failed to connect
+        if (this.ws.readyState !== OPEN) {
+          this.detachSocket()
+          this.handleClose(1006, "Failed to establish WebSocket connection")
+        }
       }
 
       this.ws.onmessage = (event) => {
-        Queue.unsafeOffer(this.messageQueue, event.data)
-        Queue.unsafeOffer(this.eventQueue, { _tag: "message", data: event.data })
+        this.handleMessage(event.data)
       }
 
     } catch (error) {
-      this.isCurrentlyReconnecting = false
       // If reconnection fails completely, try again
-      if (!this.manualClose && this.reconnectionOptions.enabled) {
-        this.attemptReconnection()
-      }
+      this.attemptReconnection({ code: 1006, reason: (error as Error).message })
     }
   }
 }
@@ -331,28 +1037,23 @@ export class WebSocketClientImpl implements WebSocketClient {
 // Create a WebSocket client
 export const makeWebSocketClient = (
   url: string,
-  protocols?: string | string[],
-  reconnectionOptions?: Partial<ReconnectionOptions>
+  options?: ClientOptions
 ): Effect.Effect<WebSocketClient, WebSocketConnectionError, Scope.Scope> =>
   Effect.gen(function* () {
     const scope = yield* Effect.scope
+    const resolved = resolveClientOptions(options)
+    const makeSocket = Option.getOrElse(
+      yield* Effect.serviceOption(WebSocketConstructor),
+      () => globalWebSocketConstructor
+    )
 
-    const messageQueue = yield* Queue.unbounded<WebSocketMessage>()
-    const eventQueue = yield* Queue.unbounded<WebSocketEvent>()
-
-    // Merge with default reconnection options
-    const defaultReconnectionOptions: ReconnectionOptions = {
-      enabled: false,
-      initialDelay: 1000,
-      maxDelay: 30000,
-      maxAttempts: 10,
-      backoffMultiplier: 2,
-      jitter: true
-    }
-    const finalReconnectionOptions = { ...defaultReconnectionOptions, ...reconnectionOptions }
+    const messageQueue = yield* makeQueue<WebSocketMessage>(resolved.queues.messages)
+    const eventQueue = yield* makeQueue<WebSocketEvent>(resolved.queues.events)
+    const overflowQueue = yield* Queue.sliding<QueueOverflow>(16)
+    const stateRef = yield* SubscriptionRef.make<ConnectionState>(ConnectionState.Connecting())
 
     const ws = yield* Effect.try({
-      try: () => new WebSocket(url, protocols),
+      try: () => openSocket(makeSocket, url, resolved),
       catch: (error) => new WebSocketConnectionError({
         url,
         reason: `Invalid WebSocket URL: ${(error as Error).message}`
@@ -363,10 +1064,12 @@ export const makeWebSocketClient = (
       ws,
       messageQueue,
       eventQueue,
+      stateRef,
+      overflowQueue,
       scope,
       url,
-      protocols,
-      finalReconnectionOptions
+      resolved,
+      makeSocket
     )
 
     // Set up event listeners
@@ -374,20 +1077,23 @@ export const makeWebSocketClient = (
 
     // Wait for connection to open
     yield* Effect.async<void, WebSocketConnectionError>((resume) => {
-      if (ws.readyState === WebSocket.OPEN) {
+      if (ws.readyState === OPEN) {
         resume(Effect.succeed(undefined))
         return
       }
 
       const onOpen = () => {
+        clearTimeout(timeout)
         ws.removeEventListener('open', onOpen)
         ws.removeEventListener('error', onError)
         resume(Effect.succeed(undefined))
       }
 
       const onError = (event: Event) => {
+        clearTimeout(timeout)
         ws.removeEventListener('open', onOpen)
         ws.removeEventListener('error', onError)
+        client.detachSocket()
         resume(Effect.fail(new WebSocketConnectionError({
           url,
           reason: "Failed to establish WebSocket connection"
@@ -397,27 +1103,37 @@ export const makeWebSocketClient = (
       ws.addEventListener('open', onOpen)
       ws.addEventListener('error', onError)
 
-      // Timeout after 10 seconds
-      setTimeout(() => {
-        if (ws.readyState !== WebSocket.OPEN) {
+      const timeout = setTimeout(() => {
+        if (ws.readyState !== OPEN) {
           ws.removeEventListener('open', onOpen)
           ws.removeEventListener('error', onError)
+          // Close the socket so one that opens late is not left connected
+          client.detachSocket()
           resume(Effect.fail(new WebSocketConnectionError({
             url,
             reason: "WebSocket connection timeout"
           })))
         }
-      }, 10000)
+      }, resolved.connectTimeout)
+
+      return Effect.sync(() => {
+        clearTimeout(timeout)
+        client.detachSocket()
+      })
     })
 
     // Clean up on scope close
     yield* Scope.addFinalizer(scope, Effect.sync(() => {
       client.manualClose = true
+      client.stopHeartbeat()
+      client.discardOutbox()
+      client.failPendingRequests("Connection closed")
       if (client.reconnectTimeoutId) {
         clearTimeout(client.reconnectTimeoutId)
       }
-      if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
-        ws.close()
+      // The client may have replaced its socket while reconnecting
+      if (client.ws.readyState === OPEN || client.ws.readyState === CONNECTING) {
+        client.ws.close()
       }
     }))
 
@@ -425,51 +1141,207 @@ export const makeWebSocketClient = (
   })
 
 // Helper to create and use a WebSocket client
-export function withWebSocketClient<A, E>(
+export const withWebSocketClient = <A, E>(
   url: string,
   f: (client: WebSocketClient) => Effect.Effect<A, E, Scope.Scope>,
-  reconnectionOptions?: Partial<ReconnectionOptions>
-): Effect.Effect<A, E | WebSocketConnectionError, Scope.Scope>
+  options?: ClientOptions
+): Effect.Effect<A, E | WebSocketConnectionError, Scope.Scope> =>
+  Effect.scoped(
+    Effect.gen(function* () {
+      const client = yield* makeWebSocketClient(url, options)
+      return yield* f(client)
+    })
+  )
 
-export function withWebSocketClient<A, E>(
-  url: string,
-  protocols: string | string[] | undefined,
-  f: (client: WebSocketClient) => Effect.Effect<A, E, Scope.Scope>,
-  reconnectionOptions?: Partial<ReconnectionOptions>
-): Effect.Effect<A, E | WebSocketConnectionError, Scope.Scope>
+/**
+ * Service tag for a WebSocket client, so programs can depend on a connection without
+ * constructing it. Provide it with `layerWebSocketClient`, `layerWebSocketClientConfig`
+ * or a test implementation.
+ */
+export class WebSocketClientService extends Context.Tag("effect-websocket/WebSocketClient")<
+  WebSocketClientService,
+  WebSocketClient
+>() {}
 
-export function withWebSocketClient<A, E>(
+/**
+ * Layer that connects a `WebSocketClientService` when built and closes it when released.
+ * Uses the `WebSocketConstructor` service when one is provided.
+ */
+export const layerWebSocketClient = (
   url: string,
-  protocolsOrCallback: string | string[] | undefined | ((client: WebSocketClient) => Effect.Effect<A, E, Scope.Scope>),
-  fOrReconnectionOptions?: ((client: WebSocketClient) => Effect.Effect<A, E, Scope.Scope>) | Partial<ReconnectionOptions>,
-  reconnectionOptions?: Partial<ReconnectionOptions>
-): Effect.Effect<A, E | WebSocketConnectionError, Scope.Scope> {
-  // Handle overloaded signatures
-  if (typeof protocolsOrCallback === 'function') {
-    // Called as: withWebSocketClient(url, f, reconnectionOptions?)
-    const f = protocolsOrCallback
-    const options = fOrReconnectionOptions as Partial<ReconnectionOptions> | undefined
-    return Effect.scoped(
-      Effect.gen(function* () {
-        const client = yield* makeWebSocketClient(url, undefined, options)
-        return yield* f(client)
-      })
+  options?: ClientOptions
+): Layer.Layer<WebSocketClientService, WebSocketConnectionError> =>
+  Layer.scoped(WebSocketClientService, makeWebSocketClient(url, options))
+
+/**
+ * Like `layerWebSocketClient`, reading the URL from `Config`.
+ *
+ * @example
+ * ```typescript
+ * layerWebSocketClientConfig(Config.string("WS_URL"), { reconnection: { enabled: true } })
+ * ```
+ */
+export const layerWebSocketClientConfig = (
+  url: Config.Config<string>,
+  options?: ClientOptions
+): Layer.Layer<WebSocketClientService, WebSocketConnectionError | ConfigError.ConfigError> =>
+  Layer.scoped(WebSocketClientService, Effect.flatMap(url, (url) => makeWebSocketClient(url, options)))
+
+/**
+ * Schemas describing the messages exchanged over a typed WebSocket client.
+ * Frames are serialized as JSON on the wire.
+ */
+export interface TypedChannelSchemas<I, IE, O, OE> {
+  /** Schema used to decode messages received from the server */
+  readonly incoming: Schema.Schema<I, IE>
+  /** Schema used to encode messages sent to the server */
+  readonly outgoing: Schema.Schema<O, OE>
+}
+
+/**
+ * WebSocket client that encodes outgoing values and decodes incoming frames with `effect/Schema`.
+ * Frames that fail to decode are emitted as `Left<WebSocketDecodeError>` so a single malformed
+ * message does not terminate the stream.
+ */
+export interface TypedWebSocketClient<I, O> extends Omit<WebSocketClient, "send" | "request" | "messages"> {
+  /**
+   * Encodes and sends a message to the WebSocket server.
+   * @param message - The value to encode and send
+   * @returns An Effect that succeeds when sent or fails with WebSocketEncodeError or WebSocketSendError
+   */
+  readonly send: (message: O) => Effect.Effect<void, WebSocketEncodeError | WebSocketSendError>
+
+  /**
+   * Encodes and sends a request, then decodes the reply carrying the same correlation id.
+   * @param make - Builds the value to send from the generated correlation id
+   * @param timeout - Optional time to wait for the reply
+   */
+  readonly request: (
+    make: (id: string) => O,
+    timeout?: Duration.DurationInput
+  ) => Effect.Effect<
+    I,
+    WebSocketEncodeError | WebSocketSendError | WebSocketRequestError | WebSocketDecodeError
+  >
+
+  /**
+   * Stream of decoded messages received from the server.
+   */
+  readonly messages: Stream.Stream<Either.Either<I, WebSocketDecodeError>, WebSocketError>
+
+  /**
+   * The underlying untyped client.
+   */
+  readonly raw: WebSocketClient
+}
+
+const decodeFrameText = (data: WebSocketMessage): Effect.Effect<string, WebSocketDecodeError> => {
+  if (typeof data === "string") {
+    return Effect.succeed(data)
+  }
+  if (data instanceof ArrayBuffer) {
+    return Effect.try({
+      try: () => new TextDecoder("utf-8", { fatal: true }).decode(data),
+      catch: (error) => new WebSocketDecodeError({ data, reason: (error as Error).message })
+    })
+  }
+  return Effect.tryPromise({
+    try: () => data.text(),
+    catch: (error) => new WebSocketDecodeError({ data, reason: (error as Error).message })
+  })
+}
+
+class TypedWebSocketClientImpl<I, IE, O, OE> implements TypedWebSocketClient<I, O> {
+  private readonly decode: (text: string) => Effect.Effect<I, ParseResult.ParseError>
+  private readonly encode: (value: O) => Effect.Effect<string, ParseResult.ParseError>
+
+  constructor(
+    readonly raw: WebSocketClient,
+    schemas: TypedChannelSchemas<I, IE, O, OE>
+  ) {
+    this.decode = Schema.decodeUnknown(Schema.parseJson(schemas.incoming))
+    this.encode = Schema.encode(Schema.parseJson(schemas.outgoing))
+  }
+
+  send(message: O): Effect.Effect<void, WebSocketEncodeError | WebSocketSendError> {
+    return Effect.flatMap(this.encodeMessage(message), (text) => this.raw.send(text))
+  }
+
+  request(
+    make: (id: string) => O,
+    timeout?: Duration.DurationInput
+  ): Effect.Effect<I, WebSocketEncodeError | WebSocketSendError | WebSocketRequestError | WebSocketDecodeError> {
+    return Effect.flatMap(
+      this.raw.request((id) => this.encodeMessage(make(id)), timeout),
+      (reply) => this.decodeMessage(reply)
     )
-  } else {
-    // Called as: withWebSocketClient(url, protocols, f, reconnectionOptions?)
-    const protocols = protocolsOrCallback
-    const f = fOrReconnectionOptions as (client: WebSocketClient) => Effect.Effect<A, E, Scope.Scope>
-    return Effect.scoped(
-      Effect.gen(function* () {
-        const client = yield* makeWebSocketClient(url, protocols, reconnectionOptions)
-        return yield* f(client)
-      })
+  }
+
+  get messages(): Stream.Stream<Either.Either<I, WebSocketDecodeError>, WebSocketError> {
+    return Stream.mapEffect(this.raw.messages, (data) => Effect.either(this.decodeMessage(data)))
+  }
+
+  private encodeMessage(message: O): Effect.Effect<string, WebSocketEncodeError> {
+    return Effect.mapError(this.encode(message), (error) => new WebSocketEncodeError({ reason: error.message }))
+  }
+
+  private decodeMessage(data: WebSocketMessage): Effect.Effect<I, WebSocketDecodeError> {
+    return Effect.flatMap(decodeFrameText(data), (text) =>
+      Effect.mapError(this.decode(text), (error) => new WebSocketDecodeError({ data, reason: error.message }))
     )
   }
+
+  get events(): Stream.Stream<WebSocketEvent, WebSocketError> {
+    return this.raw.events
+  }
+
+  get overflows(): Stream.Stream<QueueOverflow, never> {
+    return this.raw.overflows
+  }
+
+  close(code?: number, reason?: string): Effect.Effect<void, WebSocketError> {
+    return this.raw.close(code, reason)
+  }
+
+  get readyState(): Effect.Effect<number, never> {
+    return this.raw.readyState
+  }
+
+  get protocol(): Effect.Effect<string, never> {
+    return this.raw.protocol
+  }
+
+  get extensions(): Effect.Effect<string, never> {
+    return this.raw.extensions
+  }
+
+  get state(): SubscriptionRef.SubscriptionRef<ConnectionState> {
+    return this.raw.state
+  }
+
+  get isReconnecting(): Effect.Effect<boolean, never> {
+    return this.raw.isReconnecting
+  }
+
+  get reconnectAttempts(): Effect.Effect<number, never> {
+    return this.raw.reconnectAttempts
+  }
 }
 
+// Create a WebSocket client with schema-typed messages
+export const makeTypedWebSocketClient = <I, IE, O, OE>(
+  url: string,
+  schemas: TypedChannelSchemas<I, IE, O, OE>,
+  options?: ClientOptions
+): Effect.Effect<TypedWebSocketClient<I, O>, WebSocketConnectionError, Scope.Scope> =>
+  Effect.map(
+    makeWebSocketClient(url, options),
+    (client) => new TypedWebSocketClientImpl(client, schemas)
+  )
+
 // Static API following Effect patterns
 export const WebSocketClient = {
   make: makeWebSocketClient,
+  makeTyped: makeTypedWebSocketClient,
   withClient: withWebSocketClient
 }
\ No newline at end of file
@@ -1,24 +1,594 @@
-import { Effect, Stream, Data } from "effect"
+import { Cause, Context, Effect, Exit, Stream, Scope, Data, Option, Either, Ref, Queue, Take } from "effect"
+import type { CloseInfo } from "./WebSocketClient"
 
 // Errors
 export class WebSocketServerError extends Data.TaggedError("WebSocketServerError")<{
   readonly reason: string
 }> {}
 
+/**
+ * Rejects a WebSocket upgrade with an HTTP status, e.g. 401 or 403.
+ */
+export class WebSocketAuthorizationError extends Data.TaggedError("WebSocketAuthorizationError")<{
+  readonly status: number
+  readonly reason: string
+}> {}
+
+/**
+ * Details of the HTTP request that opened a WebSocket connection.
+ */
+export interface UpgradeRequest {
+  /** Request path and query string */
+  readonly url: string
+
+  /** Request headers, keyed by lower-case name */
+  readonly headers: Readonly<Record<string, string>>
+
+  /** Cookies sent with the request */
+  readonly cookies: Readonly<Record<string, string>>
+
+  /** Query string parameters */
+  readonly query: URLSearchParams
+
+  /** Address of the remote peer, when the platform exposes it */
+  readonly remoteAddress: string | undefined
+}
+
+/**
+ * Builds an `UpgradeRequest`, parsing cookies and query parameters.
+ * Used by the platform adapters.
+ */
+export const makeUpgradeRequest = (
+  url: string,
+  headers: Record<string, string>,
+  remoteAddress: string | undefined
+): UpgradeRequest => {
+  const cookies: Record<string, string> = {}
+  for (const pair of (headers["cookie"] ?? "").split(";")) {
+    const index = pair.indexOf("=")
+    if (index > 0) {
+      const value = pair.slice(index + 1).trim()
+      try {
+        cookies[pair.slice(0, index).trim()] = decodeURIComponent(value)
+      } catch {
+        cookies[pair.slice(0, index).trim()] = value
+      }
+    }
+  }
+  const queryIndex = url.indexOf("?")
+  return {
+    url,
+    headers,
+    cookies,
+    query: new URLSearchParams(queryIndex >= 0 ? url.slice(queryIndex + 1) : ""),
+    remoteAddress
+  }
+}
+
+/**
+ * Configuration for server-side liveness checks.
+ */
+export interface ServerHeartbeatOptions {
+  /** Whether to ping connections and evict unresponsive ones */
+  readonly enabled: boolean
+
+  /** Milliseconds between pings */
+  readonly interval: number
+
+  /** Milliseconds to wait for a pong before evicting the connection */
+  readonly timeout: number
+}
+
+export const defaultServerHeartbeatOptions: ServerHeartbeatOptions = {
+  enabled: false,
+  interval: 30000,
+  timeout: 10000
+}
+
+/**
+ * Close reason reported for connections evicted by the server heartbeat.
+ * Evictions close with code 1006.
+ */
+export const heartbeatTimeoutReason = "Heartbeat timeout"
+
+/**
+ * Configuration for permessage-deflate compression.
+ */
+export interface CompressionOptions {
+  /** Whether to negotiate permessage-deflate with clients that offer it */
+  readonly enabled: boolean
+
+  /** Messages smaller than this many bytes are sent uncompressed */
+  readonly threshold: number
+
+  /** zlib compression level, from 0 (none) to 9 (best); Node.js only */
+  readonly level: number
+
+  /** Whether the server keeps its compression context between messages */
+  readonly serverContextTakeover: boolean
+
+  /** Whether clients may keep their compression context between messages */
+  readonly clientContextTakeover: boolean
+}
+
+export const defaultCompressionOptions: CompressionOptions = {
+  enabled: false,
+  threshold: 1024,
+  level: 6,
+  serverContextTakeover: true,
+  clientContextTakeover: true
+}
+
+/**
+ * Per-message options for `WebSocketConnection.send`.
+ */
+export interface SendOptions {
+  /**
+   * Whether to compress this message, overriding the `threshold` of the server's
+   * `compression` option. Ignored when permessage-deflate was not negotiated.
+   */
+  readonly compress?: boolean
+}
+
+/**
+ * Whether to compress an outgoing message: messages at or above the `threshold` are compressed
+ * unless the send overrides it. Used by the platform adapters.
+ */
+export const shouldCompress = (
+  compression: CompressionOptions,
+  message: string | ArrayBuffer | Buffer,
+  options: SendOptions = {}
+): boolean => options.compress ?? (compression.enabled && Buffer.byteLength(message) >= compression.threshold)
+
+/**
+ * Default `maxMessageSize` of the platform servers, in bytes (16 MiB).
+ */
+export const defaultMaxMessageSize = 16 * 1024 * 1024
+
+/**
+ * Configuration for graceful server shutdown.
+ */
+export interface ShutdownOptions {
+  /** Reason sent with close code 1001 (Going Away) to every open connection */
+  readonly reason: string
+
+  /** Milliseconds to wait for connections to close before terminating them */
+  readonly timeout: number
+}
+
+export const defaultShutdownOptions: ShutdownOptions = {
+  reason: "Server shutting down",
+  timeout: 5000
+}
+
+/**
+ * Sends a message to each connection in turn, skipping those that cannot be sent to.
+ * Returns the number of connections the message was sent to. Used by the platform adapters.
+ */
+export const sendToEach = (
+  recipients: ReadonlyArray<WebSocketConnection<any, any>>,
+  message: string | ArrayBuffer | Buffer
+): Effect.Effect<number, never> =>
+  Effect.reduce(recipients, 0, (sent, connection) =>
+    Effect.match(connection.send(message), {
+      onFailure: () => sent,
+      onSuccess: () => sent + 1
+    })
+  )
+
+/**
+ * Closes connections with 1001 and waits for them to finish, terminating any still open
+ * after the shutdown timeout. Used by the platform adapters.
+ */
+export const drainConnections = <C extends WebSocketConnection<any, any>>(
+  connections: ReadonlyArray<C>,
+  options: ShutdownOptions,
+  terminate: (connection: C) => void
+): Effect.Effect<void, never> =>
+  Effect.gen(function* () {
+    yield* Effect.forEach(connections, (connection) => Effect.ignore(connection.close(1001, options.reason)), {
+      discard: true
+    })
+    const drained = yield* Effect.forEach(connections, (connection) => connection.closed, {
+      concurrency: "unbounded",
+      discard: true
+    }).pipe(Effect.timeoutOption(options.timeout))
+    if (Option.isNone(drained)) {
+      connections.forEach(terminate)
+      yield* Effect.forEach(connections, (connection) => connection.closed, { concurrency: "unbounded", discard: true })
+    }
+  })
+
+/**
+ * A token bucket refilled at `rate` tokens per second.
+ */
+export interface TokenBucketOptions {
+  /** Tokens added per second */
+  readonly rate: number
+
+  /** Most tokens the bucket holds, i.e. the largest burst (default: `rate`) */
+  readonly burst?: number
+}
+
+/**
+ * What happens to an inbound message over the rate limit:
+ * - `drop`: discard it
+ * - `delay`: hold it, and the messages after it, until the limit allows it; when `maxDelayed`
+ *   messages are already held, close the connection instead
+ * - `close`: close the connection with 1008 (Policy Violation)
+ */
+export type RateLimitPolicy = "drop" | "delay" | "close"
+
+/**
+ * Configuration for per-connection inbound rate limiting.
+ */
+export interface RateLimitOptions {
+  /** Limits the number of messages; each message costs one token */
+  readonly messages?: TokenBucketOptions
+
+  /** Limits the volume of messages; each message costs its size in bytes */
+  readonly bytes?: TokenBucketOptions
+
+  /** What happens to messages over the limit (default: "close") */
+  readonly policy?: RateLimitPolicy
+
+  /** Most messages the `delay` policy holds at once (default: `defaultMaxDelayedMessages`) */
+  readonly maxDelayed?: number
+}
+
+/**
+ * Default `maxDelayed`: the number of messages the `delay` rate limit policy holds per connection.
+ */
+export const defaultMaxDelayedMessages = 1000
+
+/**
+ * Close reason sent with code 1008 when the `close` rate limit policy closes a connection.
+ */
+export const rateLimitExceededReason = "Rate limit exceeded"
+
+/**
+ * Applies a server's `rateLimit` option to one connection's inbound messages.
+ * Used by the platform adapters.
+ */
+export interface InboundRateLimiter<M> {
+  /** Delivers, delays, drops or rejects a message according to the policy */
+  readonly offer: (message: M, size: number) => void
+
+  /** Delivers any delayed messages at once and stops the limiter; call when the connection closes */
+  readonly flush: () => void
+}
+
+interface TokenBucket {
+  readonly rate: number
+  readonly burst: number
+  tokens: number
+}
+
+/**
+ * Creates the rate limiter for one connection. Without limits, messages are delivered as they arrive.
+ * @param handlers.deliver - Passes a message on to the connection's streams
+ * @param handlers.close - Closes the connection with 1008 and `rateLimitExceededReason`
+ * @param handlers.backlog - Reports when delayed messages start and stop waiting
+ */
+export const makeInboundRateLimiter = <M>(
+  options: RateLimitOptions | undefined,
+  handlers: {
+    readonly deliver: (message: M) => void
+    readonly close: () => void
+    readonly backlog?: (waiting: boolean) => void
+  }
+): InboundRateLimiter<M> => {
+  const makeBucket = (bucket: TokenBucketOptions | undefined): TokenBucket | undefined =>
+    bucket && { rate: bucket.rate, burst: bucket.burst ?? bucket.rate, tokens: bucket.burst ?? bucket.rate }
+  const messages = makeBucket(options?.messages)
+  const bytes = makeBucket(options?.bytes)
+  if (!messages && !bytes) {
+    return { offer: (message) => handlers.deliver(message), flush: () => {} }
+  }
+  const policy = options?.policy ?? "close"
+  const maxDelayed = options?.maxDelayed ?? defaultMaxDelayedMessages
+  const pending: Array<{ readonly message: M; readonly due: number }> = []
+  let refilledAt = Date.now()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let closed = false
+
+  const refill = (now: number) => {
+    for (const bucket of [messages, bytes]) {
+      if (bucket) bucket.tokens = Math.min(bucket.burst, bucket.tokens + ((now - refilledAt) * bucket.rate) / 1000)
+    }
+    refilledAt = now
+  }
+  const fits = (size: number) => (!messages || messages.tokens >= 1) && (!bytes || bytes.tokens >= size)
+  // Takes the message's tokens, possibly into debt, and returns how long until the debt is repaid
+  const take = (size: number) => {
+    if (messages) messages.tokens -= 1
+    if (bytes) bytes.tokens -= size
+    return Math.max(
+      messages ? (-messages.tokens / messages.rate) * 1000 : 0,
+      bytes ? (-bytes.tokens / bytes.rate) * 1000 : 0
+    )
+  }
+  const drain = () => {
+    timer = undefined
+    const now = Date.now()
+    while (pending.length > 0 && pending[0].due <= now) {
+      handlers.deliver(pending.shift()!.message)
+    }
+    if (pending.length > 0) {
+      timer = setTimeout(drain, pending[0].due - now)
+    } else {
+      handlers.backlog?.(false)
+    }
+  }
+
+  return {
+    offer: (message, size) => {
+      if (closed) return
+      const now = Date.now()
+      refill(now)
+      if (policy === "delay") {
+        const wait = take(size)
+        if (pending.length === 0 && wait <= 0) {
+          handlers.deliver(message)
+          return
+        }
+        if (pending.length >= maxDelayed) {
+          closed = true
+          clearTimeout(timer)
+          handlers.close()
+          return
+        }
+        pending.push({ message, due: now + wait })
+        if (pending.length === 1) {
+          handlers.backlog?.(true)
+          timer = setTimeout(drain, wait)
+        }
+      } else if (fits(size)) {
+        take(size)
+        handlers.deliver(message)
+      } else if (policy === "close") {
+        closed = true
+        handlers.close()
+      }
+    },
+    flush: () => {
+      closed = true
+      clearTimeout(timer)
+      pending.splice(0).forEach(({ message }) => handlers.deliver(message))
+    }
+  }
+}
+
+/**
+ * Number of messages `connection.messages` and `server.messages` keep while nothing reads them.
+ */
+export const unreadMessageLimit = 64
+
+/**
+ * Number of connections `server.connections` keeps while nothing reads it.
+ * Connections that are not kept are still served and still emit their messages.
+ */
+export const unreadConnectionLimit = 64
+
+/**
+ * Buffers items for a stream that may not be read yet: every item while the stream has a reader,
+ * and the first `limit` unread items otherwise. Used by the platform adapters.
+ */
+export interface UnreadBuffer<A> {
+  /** Buffers an item, or discards it when nothing reads the stream and `limit` items are waiting */
+  readonly offer: (item: A) => void
+
+  /** Ends the stream after the buffered items; call when the connection or server closes */
+  readonly end: () => void
+
+  /** Whether the stream currently has a reader */
+  readonly isRead: () => boolean
+
+  /** The buffered stream */
+  readonly stream: Stream.Stream<A, WebSocketServerError>
+}
+
+/**
+ * Creates a buffer that keeps at most `limit` items while its stream is not read.
+ */
+export const makeUnreadBuffer = <A>(limit: number): UnreadBuffer<A> => {
+  const queue = Effect.runSync(Queue.unbounded<Take.Take<A, WebSocketServerError>>())
+  let readers = 0
+
+  return {
+    offer: (item) => {
+      const size = Option.getOrElse(queue.unsafeSize(), () => 0)
+      if (readers > 0 || size < limit) {
+        Queue.unsafeOffer(queue, Take.of(item))
+      }
+    },
+    end: () => {
+      Queue.unsafeOffer(queue, Take.end)
+    },
+    isRead: () => readers > 0,
+    stream: Stream.unwrapScoped(
+      Effect.acquireRelease(
+        Effect.sync(() => { readers++ }),
+        () => Effect.sync(() => { readers-- })
+      ).pipe(Effect.as(Stream.flattenTake(Stream.fromQueue(queue))))
+    )
+  }
+}
+
+/**
+ * Options shared by the platform server implementations.
+ * @template A - The data `authorize` attaches to each connection
+ * @template S - The session state each connection starts with
+ */
+export interface ServerOptions<A = unknown, S = A> {
+  /**
+   * Runs before each upgrade. Fail with `WebSocketAuthorizationError` to reject the
+   * request with its HTTP status; succeed to accept it and attach the value to the
+   * connection as `data`. Defects reject the request with 500.
+   */
+  readonly authorize?: (request: UpgradeRequest) => Effect.Effect<A, WebSocketAuthorizationError>
+
+  /**
+   * Produces the ID of each accepted connection from its upgrade request and the data
+   * attached by `authorize` (default: `crypto.randomUUID()`). Upgrades whose ID is already
+   * in use are rejected with 409; defects reject the request with 500.
+   */
+  readonly generateId?: (request: UpgradeRequest, data: A) => Effect.Effect<string>
+
+  /**
+   * Creates each accepted connection's initial session state from its upgrade request and
+   * the data attached by `authorize` (default: the `authorize` data). Defects reject the
+   * request with 500.
+   */
+  readonly session?: (request: UpgradeRequest, data: A) => Effect.Effect<S>
+
+  /**
+   * Pings connections and terminates those that stop answering (default: disabled).
+   */
+  readonly heartbeat?: Partial<ServerHeartbeatOptions>
+
+  /**
+   * How `close()` and scope finalization shut the server down.
+   */
+  readonly shutdown?: Partial<ShutdownOptions>
+
+  /**
+   * Limits the rate of messages each connection may send (default: unlimited).
+   */
+  readonly rateLimit?: RateLimitOptions
+
+  /**
+   * Largest message a connection may send, in bytes (default: `defaultMaxMessageSize`).
+   * A larger message closes the connection with 1009 and `messageTooLargeReason`, and emits
+   * a `connection_error` event carrying `WebSocketMessageTooLargeError`.
+   */
+  readonly maxMessageSize?: number
+
+  /**
+   * permessage-deflate compression (default: disabled).
+   */
+  readonly compression?: Partial<CompressionOptions>
+}
+
+/**
+ * Runs a server's `authorize` option for an upgrade request, rejecting with 500 on defects.
+ * Used by the platform adapters.
+ */
+export const authorizeUpgrade = <A>(
+  authorize: ServerOptions<A>["authorize"],
+  request: UpgradeRequest
+): Effect.Effect<Either.Either<A, WebSocketAuthorizationError>, never> =>
+  authorize
+    ? authorize(request).pipe(
+        Effect.catchAllDefect(() =>
+          Effect.fail(new WebSocketAuthorizationError({ status: 500, reason: "Internal Server Error" }))
+        ),
+        Effect.either
+      )
+    : Effect.succeed(Either.right(undefined as A))
+
+/**
+ * The default connection ID generator: a random UUID.
+ */
+export const randomConnectionId: Effect.Effect<string> = Effect.sync(() => crypto.randomUUID())
+
+// Runs a server's `generateId` option, rejecting with 409 when the ID is taken and with 500 on defects
+const generateConnectionId = <A>(
+  generateId: ServerOptions<A>["generateId"],
+  request: UpgradeRequest,
+  data: A,
+  inUse: (id: string) => boolean
+): Effect.Effect<Either.Either<string, WebSocketAuthorizationError>, never> =>
+  (generateId ? generateId(request, data) : randomConnectionId).pipe(
+    Effect.filterOrFail(
+      (id) => !inUse(id),
+      () => new WebSocketAuthorizationError({ status: 409, reason: "Connection ID in use" })
+    ),
+    Effect.catchAllDefect(() =>
+      Effect.fail(new WebSocketAuthorizationError({ status: 500, reason: "Internal Server Error" }))
+    ),
+    Effect.either
+  )
+
+// Runs a server's `session` option and wraps the result in a Ref, rejecting with 500 on defects
+const initializeSession = <A, S>(
+  session: ServerOptions<A, S>["session"],
+  request: UpgradeRequest,
+  data: A
+): Effect.Effect<Either.Either<Ref.Ref<S>, WebSocketAuthorizationError>, never> =>
+  (session ? session(request, data) : Effect.succeed(data as unknown as S)).pipe(
+    Effect.flatMap(Ref.make),
+    Effect.catchAllDefect(() =>
+      Effect.fail(new WebSocketAuthorizationError({ status: 500, reason: "Internal Server Error" }))
+    ),
+    Effect.either
+  )
+
+/**
+ * An upgrade accepted by `acceptUpgrade`.
+ */
+export interface AcceptedUpgrade<A, S> {
+  readonly id: string
+  readonly data: A
+  readonly session: Ref.Ref<S>
+}
+
+/**
+ * Runs a server's `authorize`, `generateId` and `session` options for an upgrade request,
+ * returning the accepted connection's ID, data and session state. Used by the platform adapters.
+ * @param inUse - Reports whether an ID belongs to an open connection
+ */
+export const acceptUpgrade = <A, S>(
+  options: ServerOptions<A, S>,
+  request: UpgradeRequest,
+  inUse: (id: string) => boolean
+): Effect.Effect<Either.Either<AcceptedUpgrade<A, S>, WebSocketAuthorizationError>, never> =>
+  Effect.gen(function* () {
+    const authorized = yield* authorizeUpgrade(options.authorize, request)
+    if (Either.isLeft(authorized)) {
+      return Either.left(authorized.left)
+    }
+    const data = authorized.right
+    const id = yield* generateConnectionId(options.generateId, request, data, inUse)
+    if (Either.isLeft(id)) {
+      return Either.left(id.left)
+    }
+    const session = yield* initializeSession(options.session, request, data)
+    return Either.map(session, (session) => ({ id: id.right, data, session }))
+  })
+
 /**
  * Represents a WebSocket connection on the server side.
  * Provides methods for sending messages and managing the connection lifecycle.
+ * @template A - The data attached by the server's `authorize` option
+ * @template S - The connection's session state
  */
-export interface WebSocketConnection {
+export interface WebSocketConnection<A = unknown, S = A> {
   /** Unique identifier for this connection */
   readonly id: string
 
+  /** The HTTP request that opened this connection */
+  readonly request: UpgradeRequest
+
+  /** The data attached by `authorize`, or undefined when the server has no `authorize` option */
+  readonly data: A
+
+  /**
+   * Mutable session state for this connection, created by the server's `session` option
+   * when the upgrade is accepted. Read and update it with the `Ref` functions.
+   */
+  readonly session: Ref.Ref<S>
+
+  /** Whether permessage-deflate compression was negotiated with the client */
+  readonly perMessageDeflate: boolean
+
   /**
    * Sends a message to the connected client.
    * @param message - The message to send (string, ArrayBuffer, or Buffer)
+   * @param options - Per-message options, e.g. whether to compress it
    * @returns An Effect that succeeds when the message is sent or fails with WebSocketServerError
    */
-  readonly send: (message: string | ArrayBuffer | Buffer) => Effect.Effect<void, WebSocketServerError>
+  readonly send: (message: string | ArrayBuffer | Buffer, options?: SendOptions) => Effect.Effect<void, WebSocketServerError>
 
   /**
    * Closes the WebSocket connection.
@@ -33,6 +603,47 @@ export interface WebSocketConnection {
    * @returns An Effect that returns the ready state (0 = CONNECTING, 1 = OPEN, 2 = CLOSING, 3 = CLOSED)
    */
   readonly readyState: Effect.Effect<number, never>
+
+  /**
+   * Stream of messages received on this connection.
+   * Ends once the connection has closed and every buffered message has been emitted.
+   * While nothing reads it, only the first `unreadMessageLimit` unread messages are kept.
+   */
+  readonly messages: Stream.Stream<string | ArrayBuffer | Buffer, WebSocketServerError>
+
+  /**
+   * Waits for the connection to close.
+   * @returns An Effect that succeeds with the close code and reason (1006 when the connection was dropped,
+   * with `heartbeatTimeoutReason` when the server heartbeat evicted it)
+   */
+  readonly closed: Effect.Effect<CloseInfo, never>
+
+  /**
+   * Subscribes this connection to a topic. Subscriptions end when the connection closes.
+   * Has no effect on a connection that is not open.
+   * @param topic - The topic name
+   */
+  readonly subscribe: (topic: string) => Effect.Effect<void, never>
+
+  /**
+   * Unsubscribes this connection from a topic.
+   * @param topic - The topic name
+   */
+  readonly unsubscribe: (topic: string) => Effect.Effect<void, never>
+
+  /**
+   * Gets the topics this connection is subscribed to.
+   */
+  readonly topics: Effect.Effect<ReadonlyArray<string>, never>
+
+  /**
+   * Publishes a message to every other subscriber of a topic.
+   * The connection does not need to be subscribed itself.
+   * @param topic - The topic name
+   * @param message - The message to send
+   * @returns An Effect that returns the number of subscribers the message was sent to
+   */
+  readonly publish: (topic: string, message: string | ArrayBuffer | Buffer) => Effect.Effect<number, never>
 }
 
 /**
@@ -46,6 +657,131 @@ export interface ConnectionMessage {
   readonly data: string | ArrayBuffer | Buffer
 }
 
+/**
+ * Lifecycle events emitted by a WebSocket server.
+ * Switching on `_tag` narrows the event to the fields of that variant.
+ */
+export type WebSocketServerEvent = Data.TaggedEnum<{
+  /** A client connected */
+  connected: {
+    /** The ID of the new connection */
+    readonly connectionId: string
+  }
+  /** A connection closed */
+  disconnected: {
+    /** The ID of the closed connection */
+    readonly connectionId: string
+    /** Close code */
+    readonly code: number
+    /** Close reason */
+    readonly reason: string
+  }
+  /** A connection's socket reported an error, or its `serve` handler failed */
+  connection_error: {
+    /** The ID of the failing connection */
+    readonly connectionId: string
+    /** The error reported by the runtime, or the `Cause` of the handler failure */
+    readonly cause: unknown
+  }
+  /** The server itself reported an error */
+  server_error: {
+    /** The error reported by the runtime */
+    readonly cause: unknown
+  }
+}>
+
+export const WebSocketServerEvent = Data.taggedEnum<WebSocketServerEvent>()
+
+/**
+ * Number of undelivered events `server.events` keeps; the oldest are discarded first.
+ */
+export const unreadEventLimit = 1024
+
+/**
+ * Buffers a server's lifecycle events for `server.events`. Used by the platform adapters.
+ */
+export interface ServerEventBuffer {
+  /** Buffers an event, discarding the oldest one when `unreadEventLimit` events are waiting */
+  readonly emit: (event: WebSocketServerEvent) => void
+
+  /** Ends the stream after the buffered events; call when the server shuts down */
+  readonly end: () => void
+
+  /** The server's `events` stream */
+  readonly events: Stream.Stream<WebSocketServerEvent, WebSocketServerError>
+}
+
+/**
+ * Creates the event buffer for one server.
+ */
+export const makeServerEventBuffer = (): ServerEventBuffer => {
+  const queue = Effect.runSync(Queue.sliding<Take.Take<WebSocketServerEvent, WebSocketServerError>>(unreadEventLimit))
+  // Offers to a sliding queue complete at once; unsafeOffer would reject them when it is full
+  const offer = (take: Take.Take<WebSocketServerEvent, WebSocketServerError>) => {
+    Effect.runSync(Queue.offer(queue, take))
+  }
+
+  return {
+    emit: (event) => offer(Take.of(event)),
+    end: () => offer(Take.end),
+    events: Stream.flattenTake(Stream.fromQueue(queue))
+  }
+}
+
+/**
+ * Selects the recipients of a broadcast.
+ */
+export interface BroadcastOptions<A = unknown, S = A> {
+  /** Connection ID(s) to skip, typically the sender */
+  readonly except?: string | ReadonlyArray<string>
+
+  /** Only connections for which this returns true receive the message */
+  readonly filter?: (connection: WebSocketConnection<A, S>) => boolean
+}
+
+/**
+ * Configuration for `WebSocketServer.serve`.
+ */
+export interface ServeOptions {
+  /**
+   * Maximum number of connections handled at once (default: "unbounded").
+   * Further connections wait for a running handler to finish.
+   */
+  readonly concurrency?: number | "unbounded"
+}
+
+/**
+ * Runs a handler for each connection in its own fiber, interrupting it when the connection
+ * closes and closing the connection when it completes (with 1011 when it fails).
+ * Used by the platform adapters.
+ * @param onFailure - Reports a handler failure for the connection
+ */
+export const serveConnections = <C extends WebSocketConnection<any, any>, E, R>(
+  connections: Stream.Stream<C, WebSocketServerError>,
+  handler: (connection: C) => Effect.Effect<unknown, E, R>,
+  options: ServeOptions,
+  onFailure: (connection: C, cause: Cause.Cause<E>) => Effect.Effect<void>
+): Effect.Effect<void, WebSocketServerError, Exclude<R, Scope.Scope>> =>
+  Stream.runDrain(
+    Stream.mapEffect(
+      connections,
+      (connection) =>
+        Effect.scoped(handler(connection)).pipe(
+          Effect.exit,
+          Effect.raceFirst(Effect.as(connection.closed, Exit.void)),
+          Effect.flatMap((exit) =>
+            Exit.isFailure(exit) && !Cause.isInterruptedOnly(exit.cause)
+              ? Effect.zipRight(
+                  onFailure(connection, exit.cause),
+                  Effect.ignore(connection.close(1011, "Internal Error"))
+                )
+              : Effect.ignore(connection.close(1000))
+          )
+        ),
+      { concurrency: options.concurrency ?? "unbounded", unordered: true }
+    )
+  )
+
 /**
  * WebSocket server interface for Effect-TS.
  * Provides streams for handling connections and messages, with functional error handling.
@@ -74,22 +810,107 @@ export interface ConnectionMessage {
  * )
  * ```
  */
-export interface WebSocketServer {
+export interface WebSocketServer<A = unknown, S = A> {
   /**
    * Stream of new WebSocket connections.
    * Each item represents a client that has connected to the server.
+   * While nothing reads it, only the first `unreadConnectionLimit` unread connections are kept.
    */
-  readonly connections: Stream.Stream<WebSocketConnection, WebSocketServerError>
+  readonly connections: Stream.Stream<WebSocketConnection<A, S>, WebSocketServerError>
 
   /**
    * Stream of messages received from connected clients.
    * Each item contains the connection ID and the message data.
+   * While nothing reads it, only the first `unreadMessageLimit` unread messages are kept, and messages
+   * already received by a reader of `connection.messages` are not kept at all.
    */
   readonly messages: Stream.Stream<ConnectionMessage, WebSocketServerError>
 
   /**
-   * Closes the WebSocket server and terminates all connections.
+   * Stream of server lifecycle events: connections opening and closing, and errors.
+   */
+  readonly events: Stream.Stream<WebSocketServerEvent, WebSocketServerError>
+
+  /**
+   * Handles each new connection in its own fiber, consuming `connections`.
+   * The handler's scope closes when it completes or when the socket closes, which
+   * interrupts it. When the handler completes the connection is closed with 1000; when it
+   * fails the connection is closed with 1011 and a `connection_error` event carries the cause.
+   * Other connections and the server keep running.
+   * @param handler - Runs for each connection
+   * @param options - Concurrency options
+   * @returns An Effect that runs until the server is closed
+   */
+  readonly serve: <E, R>(
+    handler: (connection: WebSocketConnection<A, S>) => Effect.Effect<unknown, E, R>,
+    options?: ServeOptions
+  ) => Effect.Effect<void, WebSocketServerError, Exclude<R, Scope.Scope>>
+
+  /**
+   * Sends a message to every open connection selected by the options.
+   * Connections that cannot be sent to (e.g. because they are closing) are skipped.
+   * @param message - The message to send
+   * @param options - Optional recipient selection
+   * @returns An Effect that returns the number of connections the message was sent to
+   */
+  readonly broadcast: (message: string | ArrayBuffer | Buffer, options?: BroadcastOptions<A, S>) => Effect.Effect<number, never>
+
+  /**
+   * Looks up an open connection by ID.
+   * @returns An Effect that returns the connection, or None once it has closed
+   */
+  readonly getConnection: (id: string) => Effect.Effect<Option.Option<WebSocketConnection<A, S>>, never>
+
+  /**
+   * Gets the number of currently open connections.
+   */
+  readonly connectionCount: Effect.Effect<number, never>
+
+  /**
+   * Publishes a message to every subscriber of a topic.
+   * @param topic - The topic name
+   * @param message - The message to send
+   * @returns An Effect that returns the number of subscribers the message was sent to
+   */
+  readonly publish: (topic: string, message: string | ArrayBuffer | Buffer) => Effect.Effect<number, never>
+
+  /**
+   * Gets the connections subscribed to a topic.
+   * @param topic - The topic name
+   */
+  readonly topicMembers: (topic: string) => Effect.Effect<ReadonlyArray<WebSocketConnection<A, S>>, never>
+
+  /**
+   * Shuts the server down gracefully: stops accepting upgrades, closes every connection
+   * with 1001, terminates those still open after the shutdown timeout, then ends the
+   * `connections`, `messages` and `events` streams. Calling it again waits for the same shutdown.
+   * @param options - Overrides the server's shutdown options
    * @returns An Effect that succeeds when the server is closed or fails with WebSocketServerError
    */
-  readonly close: () => Effect.Effect<void, WebSocketServerError>
+  readonly close: (options?: Partial<ShutdownOptions>) => Effect.Effect<void, WebSocketServerError>
 }
+
+/**
+ * Service tag for a WebSocket server, so programs can depend on a server without
+ * choosing a platform. Provide it with a platform adapter's `layerWebSocketServer`
+ * or `layerWebSocketServerConfig`, or with a test implementation.
+ *
+ * @example
+ * ```typescript
+ * import { Effect, Stream } from "effect"
+ * import { WebSocketServerService } from "effect-websocket"
+ * import { layerWebSocketServer } from "effect-websocket-node"
+ *
+ * const program = Effect.gen(function* () {
+ *   const server = yield* WebSocketServerService
+ *   yield* Stream.runForEach(server.messages, (message) => server.broadcast(message.data))
+ * })
+ *
+ * Effect.runPromise(program.pipe(Effect.provide(layerWebSocketServer({ port: 8080 }))))
+ * ```
+ */
+export class WebSocketServerService extends Context.Tag("effect-websocket/WebSocketServer")<
+  WebSocketServerService,
+  WebSocketServer
+>() {}
+
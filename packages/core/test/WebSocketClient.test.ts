@@ -1,7 +1,10 @@
 import { describe, it, expect, beforeAll, afterAll } from "vitest"
-import { Effect, Stream } from "effect"
+import { Effect, Stream, Schema, Chunk, Either, Fiber, Schedule, Duration, SubscriptionRef, Layer, Config, ConfigProvider, Option } from "effect"
 import { WebSocketConnectionError, WebSocketError, WebSocketSendError, WebSocketClient } from "../src/WebSocketClient"
-import type { WebSocketEvent } from "../src/WebSocketClient"
+import { WebSocketMessageTooLargeError, messageTooLargeReason } from "../src/WebSocketClient"
+import { WebSocketEvent, ConnectionState, WebSocketConstructor, WebSocketClientService, layerWebSocketClientConfig } from "../src/WebSocketClient"
+import type { WebSocketInit } from "../src/WebSocketClient"
+import type { CloseInfo } from "../src/WebSocketClient"
 import { WebSocketServer } from "ws"
 
 describe("WebSocketClient", () => {
@@ -65,7 +68,7 @@ describe("WebSocketClient", () => {
   it("should send and receive string messages", async () => {
     const result = await Effect.runPromiseExit(
       Effect.scoped(
-        WebSocketClient.withClient(`ws://localhost:${testPort}`, undefined, (client) =>
+        WebSocketClient.withClient(`ws://localhost:${testPort}`, (client) =>
           Effect.gen(function* () {
             // Send a message
             yield* client.send("Hello from test!")
@@ -87,7 +90,7 @@ describe("WebSocketClient", () => {
 
     const result = await Effect.runPromiseExit(
       Effect.scoped(
-        WebSocketClient.withClient(`ws://localhost:${testPort}`, undefined, (client) =>
+        WebSocketClient.withClient(`ws://localhost:${testPort}`, (client) =>
           Effect.gen(function* () {
             // Send binary data
             yield* client.send(binaryData)
@@ -105,7 +108,7 @@ describe("WebSocketClient", () => {
   it("should close connection properly", async () => {
     const result = await Effect.runPromiseExit(
       Effect.scoped(
-        WebSocketClient.withClient(`ws://localhost:${testPort}`, undefined, (client) =>
+        WebSocketClient.withClient(`ws://localhost:${testPort}`, (client) =>
           Effect.gen(function* () {
             // Close with custom code and reason
             yield* client.close(1000, "Test close")
@@ -133,7 +136,7 @@ describe("WebSocketClient", () => {
 
     const result = await Effect.runPromiseExit(
       Effect.scoped(
-        WebSocketClient.withClient(`ws://localhost:${testPort}`, undefined, (client) =>
+        WebSocketClient.withClient(`ws://localhost:${testPort}`, (client) =>
           Effect.gen(function* () {
             // Send binary data as blob
             yield* client.send(blob)
@@ -151,7 +154,7 @@ describe("WebSocketClient", () => {
   it("should fail to send when connection is not open", async () => {
     const result = await Effect.runPromiseExit(
       Effect.scoped(
-        WebSocketClient.withClient(`ws://localhost:${testPort}`, undefined, (client) =>
+        WebSocketClient.withClient(`ws://localhost:${testPort}`, (client) =>
           Effect.gen(function* () {
             // Close the connection first
             yield* client.close()
@@ -175,7 +178,7 @@ describe("WebSocketClient", () => {
   it("should report correct ready state", async () => {
     const result = await Effect.runPromiseExit(
       Effect.scoped(
-        WebSocketClient.withClient(`ws://localhost:${testPort}`, undefined, (client) =>
+        WebSocketClient.withClient(`ws://localhost:${testPort}`, (client) =>
           Effect.gen(function* () {
             const state = yield* client.readyState
             return state
@@ -200,7 +203,7 @@ describe("WebSocketClient", () => {
 
   it("should support protocol negotiation", async () => {
     const result = await Effect.runPromiseExit(
-      Effect.scoped(WebSocketClient.make(`ws://localhost:${testPort}`, "test-protocol"))
+      Effect.scoped(WebSocketClient.make(`ws://localhost:${testPort}`, { protocols: "test-protocol" }))
     )
 
     expect(result._tag).toBe("Success")
@@ -208,7 +211,7 @@ describe("WebSocketClient", () => {
 
   it("should handle multiple protocols", async () => {
     const result = await Effect.runPromiseExit(
-      Effect.scoped(WebSocketClient.make(`ws://localhost:${testPort}`, ["proto1", "proto2"]))
+      Effect.scoped(WebSocketClient.make(`ws://localhost:${testPort}`, { protocols: ["proto1", "proto2"] }))
     )
 
     expect(result._tag).toBe("Success")
@@ -227,7 +230,7 @@ describe("WebSocketClient", () => {
 
             return true
           })
-        , { enabled: true, maxAttempts: 3 })
+        , { reconnection: { enabled: true, maxAttempts: 3 } })
       )
     )
 
@@ -251,7 +254,7 @@ describe("WebSocketClient", () => {
             yield* Effect.race(collectEvents, timeout)
             return true
           })
-        , { enabled: true, maxAttempts: 1, initialDelay: 100 })
+        , { reconnection: { enabled: true, maxAttempts: 1, initialDelay: 100 } })
       )
     )
 
@@ -259,4 +262,503 @@ describe("WebSocketClient", () => {
     // Should have at least an open event
     expect(events.some(e => e._tag === "open")).toBe(true)
   })
-})
\ No newline at end of file
+
+  it("should decode typed messages and report decode failures", async () => {
+    const Incoming = Schema.Struct({ type: Schema.Literal("greeting"), text: Schema.String })
+
+    testServer.once("connection", (ws) => {
+      ws.send(JSON.stringify({ type: "greeting", text: "hello" }))
+      ws.send("not json")
+    })
+
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const client = yield* WebSocketClient.makeTyped(`ws://localhost:${testPort}`, {
+            incoming: Incoming,
+            outgoing: Schema.Struct({ count: Schema.Number })
+          })
+          return yield* Stream.take(client.messages, 2).pipe(Stream.runCollect)
+        })
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      const [first, second] = Chunk.toReadonlyArray(result.value)
+      expect(first).toEqual(Either.right({ type: "greeting", text: "hello" }))
+      expect(Either.isLeft(second)).toBe(true)
+      if (Either.isLeft(second)) {
+        expect(second.left._tag).toBe("WebSocketDecodeError")
+        expect(second.left.data).toBe("not json")
+      }
+    }
+  }, 5000)
+
+  it("should encode typed messages before sending", async () => {
+    const received = new Promise<string>((resolve) => {
+      testServer.once("connection", (ws) => {
+        ws.once("message", (data) => resolve(data.toString()))
+      })
+    })
+
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const client = yield* WebSocketClient.makeTyped(`ws://localhost:${testPort}`, {
+            incoming: Schema.Unknown,
+            outgoing: Schema.Struct({ at: Schema.DateFromString })
+          })
+          yield* client.send({ at: new Date(0) })
+        })
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    expect(JSON.parse(await received)).toEqual({ at: "1970-01-01T00:00:00.000Z" })
+  }, 5000)
+
+  it("should apply dropping queue strategy and signal overflows", async () => {
+    testServer.once("connection", (ws) => {
+      ws.send("first")
+      ws.send("second")
+      ws.send("third")
+    })
+
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const client = yield* WebSocketClient.make(`ws://localhost:${testPort}`, {
+            queues: { messages: { strategy: "dropping", capacity: 1 } }
+          })
+          const overflows = yield* Stream.take(client.overflows, 2).pipe(Stream.runCollect)
+          const messages = yield* Stream.take(client.messages, 1).pipe(Stream.runCollect)
+          return { overflows: Chunk.toReadonlyArray(overflows), messages: Chunk.toReadonlyArray(messages) }
+        })
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value.messages).toEqual(["first"])
+      expect(result.value.overflows.map((overflow) => overflow.count)).toEqual([1, 2])
+      expect(result.value.overflows[0].queue).toBe("messages")
+      expect(result.value.overflows[0].strategy).toBe("dropping")
+    }
+  }, 5000)
+
+  it("should apply sliding queue strategy and keep the latest overflows", async () => {
+    testServer.once("connection", (ws) => {
+      for (let i = 0; i < 20; i++) ws.send(`m${i}`)
+    })
+
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const client = yield* WebSocketClient.make(`ws://localhost:${testPort}`, {
+            queues: { messages: { strategy: "sliding", capacity: 1 } }
+          })
+          yield* Stream.take(Stream.filter(client.events, WebSocketEvent.$is("message")), 20).pipe(Stream.runDrain)
+          const messages = yield* Stream.take(client.messages, 1).pipe(Stream.runCollect)
+          const overflows = yield* Stream.take(client.overflows, 16).pipe(Stream.runCollect)
+          return {
+            messages: Chunk.toReadonlyArray(messages),
+            counts: Chunk.toReadonlyArray(overflows).map((overflow) => overflow.count)
+          }
+        })
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value.messages).toEqual(["m19"])
+      // Only the 16 most recent of the 19 overflow signals are kept
+      expect(result.value.counts).toEqual(Array.from({ length: 16 }, (_, i) => i + 4))
+    }
+  }, 5000)
+
+  it("should treat a missed heartbeat pong as a connection loss", async () => {
+    const events: WebSocketEvent[] = []
+
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        Effect.gen(function* () {
+          // The test server never answers pings
+          const client = yield* WebSocketClient.make(`ws://localhost:${testPort}`, {
+            reconnection: { enabled: true, maxAttempts: 1, initialDelay: 50, jitter: false },
+            heartbeat: { enabled: true, interval: 50, timeout: 50 }
+          })
+          yield* Stream.runForEach(
+            Stream.takeUntil(client.events, (event) => event._tag === "reconnecting"),
+            (event) => Effect.sync(() => { events.push(event) })
+          )
+        })
+      ).pipe(Effect.timeout(2000))
+    )
+
+    expect(result._tag).toBe("Success")
+    const close = events.find((event) => event._tag === "close")
+    expect(close?.code).toBe(1006)
+    expect(close?.reason).toBe("Heartbeat timeout")
+    expect(events[events.length - 1]._tag).toBe("reconnecting")
+  }, 5000)
+
+  it("should buffer sends while reconnecting and flush them in order", async () => {
+    const outboxServer = new WebSocketServer({ port: testPort + 10 })
+    let connectionCount = 0
+    const flushed = new Promise<string[]>((resolve) => {
+      outboxServer.on("connection", (ws) => {
+        connectionCount++
+        if (connectionCount === 1) {
+          // Drop the first connection once the client has opened, to force a reconnection
+          setTimeout(() => ws.terminate(), 100)
+          return
+        }
+        const received: string[] = []
+        ws.on("message", (data) => {
+          received.push(data.toString())
+          if (received.length === 2) resolve(received)
+        })
+      })
+    })
+
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const client = yield* WebSocketClient.make(`ws://localhost:${testPort + 10}`, {
+            reconnection: { enabled: true, initialDelay: 100, jitter: false },
+            outbox: { enabled: true }
+          })
+          yield* Stream.runDrain(Stream.takeUntil(client.events, (event) => event._tag === "reconnecting"))
+          yield* client.send("first")
+          yield* client.send("second")
+          return yield* Effect.promise(() => flushed)
+        })
+      ).pipe(Effect.timeout(3000))
+    )
+
+    outboxServer.close()
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value).toEqual(["first", "second"])
+    }
+  }, 5000)
+
+  it("should correlate request replies by id", async () => {
+    testServer.once("connection", (ws) => {
+      ws.on("message", (data) => {
+        const request = JSON.parse(data.toString())
+        ws.send(JSON.stringify({ type: "notification" }))
+        ws.send(JSON.stringify({ id: request.id, result: request.value * 2 }))
+      })
+    })
+
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const client = yield* WebSocketClient.make(`ws://localhost:${testPort}`)
+          const reply = yield* client.request((id) => JSON.stringify({ id, value: 21 }))
+          const other = yield* Stream.take(client.messages, 1).pipe(Stream.runCollect)
+          return { reply, other: Chunk.toReadonlyArray(other) }
+        })
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(JSON.parse(result.value.reply as string)).toEqual({ id: "1", result: 42 })
+      expect(result.value.other).toEqual([JSON.stringify({ type: "notification" })])
+    }
+  }, 5000)
+
+  it("should fail pending requests on timeout and on close", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const client = yield* WebSocketClient.make(`ws://localhost:${testPort}`)
+          const timedOut = yield* Effect.flip(client.request((id) => JSON.stringify({ id }), 50))
+          const pending = yield* Effect.fork(client.request((id) => JSON.stringify({ id })))
+          yield* Effect.sleep(50)
+          // Building the close effect without running it leaves the connection alone
+          client.close()
+          yield* Effect.sleep(20)
+          const stillPending = Option.isNone(yield* Fiber.poll(pending))
+          yield* client.close()
+          const closed = yield* Effect.flip(Fiber.join(pending))
+          return { timedOut, stillPending, closed }
+        })
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value.timedOut._tag).toBe("WebSocketRequestError")
+      expect(result.value.timedOut.reason).toBe("Request timed out")
+      expect(result.value.stillPending).toBe(true)
+      expect(result.value.closed._tag).toBe("WebSocketRequestError")
+      expect(result.value.closed.reason).toBe("Connection closed")
+    }
+  }, 5000)
+
+  it("should drive reconnection attempts with a Schedule", async () => {
+    const scheduleServer = new WebSocketServer({ port: testPort + 11 })
+    scheduleServer.once("connection", (ws) => {
+      // Stop listening so every reconnection attempt fails
+      setTimeout(() => {
+        scheduleServer.close()
+        ws.close(4000, "Try again")
+      }, 50)
+    })
+
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const client = yield* WebSocketClient.make(`ws://localhost:${testPort + 11}`, {
+            reconnection: Schedule.spaced("20 millis").pipe(Schedule.intersect(Schedule.recurs(2)))
+          })
+          const events = yield* Stream.takeUntil(client.events, (event) => event._tag === "reconnect_failed").pipe(
+            Stream.runCollect
+          )
+          return Chunk.toReadonlyArray(events)
+        })
+      ).pipe(Effect.timeout(3000))
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      const reconnecting = result.value.filter(WebSocketEvent.$is("reconnecting"))
+      expect(reconnecting.map((event) => event.attempt)).toEqual([1, 2])
+      expect(reconnecting.every((event) => Duration.toMillis(event.delay) <= 20)).toBe(true)
+      expect(result.value[result.value.length - 1]).toEqual(WebSocketEvent.reconnect_failed({ attempt: 2 }))
+    }
+  }, 5000)
+
+  it("should stop reconnecting when the schedule rejects the close", async () => {
+    testServer.once("connection", (ws) => {
+      setTimeout(() => ws.close(4001, "Unauthorized"), 50)
+    })
+
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const client = yield* WebSocketClient.make(`ws://localhost:${testPort}`, {
+            reconnection: Schedule.spaced("20 millis").pipe(Schedule.whileInput((close: CloseInfo) => close.code !== 4001))
+          })
+          const events = yield* Stream.takeUntil(client.events, (event) => event._tag === "reconnect_failed").pipe(
+            Stream.runCollect
+          )
+          return Chunk.toReadonlyArray(events).map((event) => event._tag)
+        })
+      ).pipe(Effect.timeout(3000))
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value).toEqual(["open", "close", "reconnect_failed"])
+    }
+  }, 5000)
+
+  it("should report the negotiated protocol in the open event", async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const client = yield* WebSocketClient.make(`ws://localhost:${testPort}`, { protocols: ["chat", "superchat"] })
+          return yield* Stream.runHead(client.events)
+        })
+      )
+    )
+
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      const event = result.value
+      expect(event._tag).toBe("Some")
+      if (event._tag === "Some" && event.value._tag === "open") {
+        expect(event.value.protocol).toBe("chat")
+      } else {
+        expect.fail("expected an open event")
+      }
+    }
+  }, 5000)
+
+  it("should publish connection state changes", async () => {
+    const stateServer = new WebSocketServer({ port: testPort + 12 })
+    let connectionCount = 0
+    stateServer.on("connection", (ws) => {
+      connectionCount++
+      if (connectionCount === 1) {
+        setTimeout(() => ws.terminate(), 100)
+      }
+    })
+
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const client = yield* WebSocketClient.make(`ws://localhost:${testPort + 12}`, {
+            reconnection: Schedule.spaced("50 millis")
+          })
+          const states = yield* client.state.changes.pipe(
+            Stream.take(4),
+            Stream.runCollect
+          )
+          yield* client.close()
+          const closed = yield* SubscriptionRef.get(client.state)
+          return { states: Chunk.toReadonlyArray(states), closed }
+        })
+      ).pipe(Effect.timeout(3000))
+    )
+
+    stateServer.close()
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value.states.map((state) => state._tag)).toEqual(["Open", "Reconnecting", "Connecting", "Open"])
+      expect(result.value.states[1]).toEqual(
+        ConnectionState.Reconnecting({ attempt: 1, nextDelay: Duration.millis(50) })
+      )
+      expect(result.value.closed._tag).toBe("Closing")
+    }
+  }, 5000)
+
+  it("should apply handshake options", async () => {
+    const handshakeServer = new WebSocketServer({ port: testPort + 13 })
+    let authorization: string | undefined
+    handshakeServer.on("connection", (ws, req) => {
+      authorization = req.headers.authorization
+      ws.send(Buffer.from("binary"))
+    })
+
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const client = yield* WebSocketClient.make(`ws://localhost:${testPort + 13}`, {
+            protocols: "chat",
+            binaryType: "arraybuffer",
+            connectTimeout: 1000,
+            headers: { Authorization: "Bearer token" }
+          })
+          const message = yield* Stream.runHead(client.messages)
+          const protocol = yield* client.protocol
+          return { message, protocol }
+        })
+      ).pipe(Effect.timeout(3000))
+    )
+
+    handshakeServer.close()
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(authorization).toBe("Bearer token")
+      expect(result.value.protocol).toBe("chat")
+      const message = result.value.message
+      expect(message._tag === "Some" && message.value instanceof ArrayBuffer).toBe(true)
+    }
+  }, 5000)
+
+  it("should close sockets that open after the connect timeout", async () => {
+    // Accept the upgrade only after the client has given up
+    const slowServer = new WebSocketServer({
+      port: testPort + 17,
+      verifyClient: (_, callback) => setTimeout(() => callback(true), 300)
+    })
+
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(WebSocketClient.make(`ws://localhost:${testPort + 17}`, { connectTimeout: 100 }))
+    )
+    await new Promise((resolve) => setTimeout(resolve, 500))
+    const openClients = slowServer.clients.size
+
+    slowServer.close()
+    expect(result._tag).toBe("Failure")
+    expect(openClients).toBe(0)
+  }, 5000)
+
+  it("should open every socket through the provided constructor", async () => {
+    const reconnectServer = new WebSocketServer({ port: testPort + 14 })
+    let connectionCount = 0
+    reconnectServer.on("connection", (ws) => {
+      connectionCount++
+      if (connectionCount === 1) ws.close(4000, "Go away")
+    })
+
+    const calls: Array<{ url: string; init: WebSocketInit }> = []
+    const InstrumentedConstructor = Layer.succeed(WebSocketConstructor, (url, init) => {
+      calls.push({ url, init })
+      return new WebSocket(url, init.protocols)
+    })
+
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const client = yield* WebSocketClient.make(`ws://localhost:${testPort + 14}`, {
+            protocols: "chat",
+            reconnection: Schedule.spaced("20 millis")
+          })
+          yield* client.events.pipe(
+            Stream.filter((event) => event._tag === "open"),
+            Stream.take(2),
+            Stream.runDrain
+          )
+        })
+      ).pipe(Effect.provide(InstrumentedConstructor), Effect.timeout(3000))
+    )
+
+    reconnectServer.close()
+    expect(result._tag).toBe("Success")
+    expect(calls).toHaveLength(2)
+    expect(calls[1]).toEqual({ url: `ws://localhost:${testPort + 14}`, init: { protocols: "chat", headers: undefined } })
+  }, 5000)
+
+  it("should provide a client service from a config-driven layer", async () => {
+    const layerServer = new WebSocketServer({ port: testPort + 15 })
+    // Releasing the layer closes the client
+    const serverClosed = new Promise<void>((resolve) => {
+      layerServer.on("connection", (ws) => ws.on("close", () => resolve()))
+    })
+
+    const result = await Effect.runPromiseExit(
+      Effect.flatMap(WebSocketClientService, (client) => client.readyState).pipe(
+        Effect.provide(layerWebSocketClientConfig(Config.string("WS_URL"))),
+        Effect.withConfigProvider(ConfigProvider.fromMap(new Map([["WS_URL", `ws://localhost:${testPort + 15}`]]))),
+        Effect.timeout(3000)
+      )
+    )
+
+    await serverClosed
+    layerServer.close()
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      expect(result.value).toBe(1)
+    }
+  }, 5000)
+
+  it("should close the connection when a message exceeds the size limit", async () => {
+    const limitServer = new WebSocketServer({ port: testPort + 16 })
+    limitServer.on("connection", (ws) => {
+      ws.send("small")
+      ws.send("é".repeat(10))
+    })
+
+    const result = await Effect.runPromiseExit(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const client = yield* WebSocketClient.make(`ws://localhost:${testPort + 16}`, { maxMessageSize: 10 })
+          const events = yield* client.events.pipe(
+            Stream.filter((event) => event._tag === "error" || event._tag === "close"),
+            Stream.take(2),
+            Stream.runCollect
+          )
+          const messages = yield* client.messages.pipe(Stream.take(1), Stream.runCollect)
+          return { events: Chunk.toReadonlyArray(events), messages: Chunk.toReadonlyArray(messages) }
+        })
+      ).pipe(Effect.timeout(3000))
+    )
+
+    limitServer.close()
+    expect(result._tag).toBe("Success")
+    if (result._tag === "Success") {
+      const [error, close] = result.value.events
+      expect(error).toEqual(WebSocketEvent.error({ cause: new WebSocketMessageTooLargeError({ limit: 10, size: 20 }) }))
+      expect(close).toEqual(WebSocketEvent.close({ code: 1009, reason: messageTooLargeReason }))
+      expect(result.value.messages).toEqual(["small"])
+    }
+  }, 5000)
+})
+
@@ -1,19 +1,91 @@
 import { WebSocketServer as WSServer, WebSocket as WS } from "ws";
-import { Effect, Stream, Queue, Scope } from "effect";
-import type { WebSocketServer, WebSocketConnection, ConnectionMessage } from "../../core/src";
-import { WebSocketServerError } from "../../core/src";
+import type { IncomingMessage, Server as HttpServer } from "http";
+import type { Duplex } from "stream";
+import { Config, ConfigError, Effect, Layer, Stream, Queue, Scope, Deferred, Take, Option, Either, Ref } from "effect";
+import type {
+  WebSocketServer,
+  WebSocketConnection,
+  ConnectionMessage,
+  CloseInfo,
+  BroadcastOptions,
+  ServerOptions,
+  ServeOptions,
+  SendOptions,
+  CompressionOptions,
+  UnreadBuffer,
+  ServerEventBuffer,
+  AcceptedUpgrade,
+  ShutdownOptions,
+  UpgradeRequest
+} from "../../core/src";
+import {
+  WebSocketServerError,
+  WebSocketServerEvent,
+  WebSocketServerService,
+  makeUpgradeRequest,
+  acceptUpgrade,
+  defaultServerHeartbeatOptions,
+  heartbeatTimeoutReason,
+  defaultShutdownOptions,
+  defaultMaxMessageSize,
+  defaultCompressionOptions,
+  WebSocketMessageTooLargeError,
+  messageTooLargeReason,
+  drainConnections,
+  sendToEach,
+  shouldCompress,
+  serveConnections,
+  makeInboundRateLimiter,
+  makeUnreadBuffer,
+  unreadMessageLimit,
+  unreadConnectionLimit,
+  makeServerEventBuffer,
+  rateLimitExceededReason
+} from "../../core/src";
+
+/**
+ * Options for the Node.js WebSocket server.
+ * @template A - The data `authorize` attaches to each connection
+ * @template S - The session state each connection starts with
+ */
+export interface NodeWebSocketServerOptions<A = unknown, S = A> extends ServerOptions<A, S> {
+  readonly port?: number;
+  readonly host?: string;
+  readonly path?: string;
+  /**
+   * Existing HTTP server to accept upgrades from instead of listening on `port`.
+   * Upgrades for other paths are left to the server's other `upgrade` listeners,
+   * and the server is not closed with the WebSocket server.
+   */
+  readonly server?: HttpServer;
+}
+
+class NodeWebSocketConnection<A = unknown, S = A> implements WebSocketConnection<A, S> {
+  private readonly subscriptions = new Set<string>();
+  private pongTimeoutId: ReturnType<typeof setTimeout> | undefined;
+  private closeOverride: CloseInfo | undefined;
 
-class NodeWebSocketConnection implements WebSocketConnection {
   constructor(
     private ws: WS,
-    public readonly id: string
+    public readonly id: string,
+    public readonly request: UpgradeRequest,
+    public readonly data: A,
+    public readonly session: Ref.Ref<S>,
+    private readonly inbox: UnreadBuffer<string | ArrayBuffer | Buffer>,
+    private readonly closeSignal: Deferred.Deferred<CloseInfo>,
+    private readonly topicRegistry: Map<string, Set<NodeWebSocketConnection<A, S>>>,
+    private readonly compression: CompressionOptions
   ) {}
 
-  send(message: string | ArrayBuffer | Buffer): Effect.Effect<void, WebSocketServerError> {
+  get perMessageDeflate(): boolean {
+    return this.ws.extensions.includes("permessage-deflate");
+  }
+
+  send(message: string | ArrayBuffer | Buffer, options: SendOptions = {}): Effect.Effect<void, WebSocketServerError> {
     return Effect.try({
       try: () => {
         if (this.ws.readyState === WS.OPEN) {
-          this.ws.send(message);
+          this.ws.send(message, { compress: shouldCompress(this.compression, message, options) });
         } else {
           throw new Error("WebSocket is not open");
         }
@@ -34,81 +106,387 @@ class NodeWebSocketConnection implements WebSocketConnection {
   get readyState(): Effect.Effect<number, never> {
     return Effect.succeed(this.ws.readyState);
   }
+
+  get messages(): Stream.Stream<string | ArrayBuffer | Buffer, WebSocketServerError> {
+    return this.inbox.stream;
+  }
+
+  get closed(): Effect.Effect<CloseInfo, never> {
+    return Deferred.await(this.closeSignal);
+  }
+
+  subscribe(topic: string): Effect.Effect<void, never> {
+    return Effect.sync(() => {
+      if (this.ws.readyState !== WS.OPEN) return;
+      this.subscriptions.add(topic);
+      const members = this.topicRegistry.get(topic) ?? new Set();
+      this.topicRegistry.set(topic, members.add(this));
+    });
+  }
+
+  unsubscribe(topic: string): Effect.Effect<void, never> {
+    return Effect.sync(() => this.leave(topic));
+  }
+
+  get topics(): Effect.Effect<ReadonlyArray<string>, never> {
+    return Effect.sync(() => Array.from(this.subscriptions));
+  }
+
+  publish(topic: string, message: string | ArrayBuffer | Buffer): Effect.Effect<number, never> {
+    return Effect.suspend(() =>
+      sendToEach(Array.from(this.topicRegistry.get(topic) ?? []).filter((member) => member !== this), message)
+    );
+  }
+
+  // Returns whether a reader of connection.messages received the message
+  handleMessage(data: Buffer): boolean {
+    this.inbox.offer(data);
+    return this.inbox.isRead();
+  }
+
+  handleClose(code: number, reason: string): CloseInfo {
+    clearTimeout(this.pongTimeoutId);
+    this.inbox.end();
+    this.subscriptions.forEach((topic) => this.leave(topic));
+    const info = this.closeOverride ?? { code, reason };
+    Deferred.unsafeDone(this.closeSignal, Effect.succeed(info));
+    return info;
+  }
+
+  // Pings the client, terminating the connection unless a pong arrives within the timeout
+  ping(timeout: number): void {
+    if (this.ws.readyState !== WS.OPEN || this.pongTimeoutId !== undefined) return;
+    this.pongTimeoutId = setTimeout(() => {
+      this.closeOverride = { code: 1006, reason: heartbeatTimeoutReason };
+      this.ws.terminate();
+    }, timeout);
+    this.ws.ping();
+  }
+
+  // ws has already sent 1009 to the client but reports the close as 1006
+  handleMessageTooLarge(): void {
+    this.closeOverride = { code: 1009, reason: messageTooLargeReason };
+  }
+
+  handlePong(): void {
+    clearTimeout(this.pongTimeoutId);
+    this.pongTimeoutId = undefined;
+  }
+
+  terminate(): void {
+    this.ws.terminate();
+  }
+
+  private leave(topic: string): void {
+    this.subscriptions.delete(topic);
+    const members = this.topicRegistry.get(topic);
+    members?.delete(this);
+    if (members?.size === 0) {
+      this.topicRegistry.delete(topic);
+    }
+  }
 }
 
-class NodeWebSocketServer implements WebSocketServer {
+class NodeWebSocketServer<A = unknown, S = A> implements WebSocketServer<A, S> {
+  private shutdown: Deferred.Deferred<void> | undefined;
+
   constructor(
-    private readonly wss: WSServer,
-    private readonly connectionQueue: Queue.Queue<WebSocketConnection>,
-    private readonly messageQueue: Queue.Queue<ConnectionMessage>
+    private readonly connectionBuffer: UnreadBuffer<WebSocketConnection<A, S>>,
+    private readonly messageBuffer: UnreadBuffer<ConnectionMessage>,
+    private readonly eventBuffer: ServerEventBuffer,
+    private readonly registry: Map<string, NodeWebSocketConnection<A, S>>,
+    private readonly topicRegistry: Map<string, Set<NodeWebSocketConnection<A, S>>>,
+    private readonly shutdownOptions: ShutdownOptions,
+    private readonly stopAccepting: () => void
   ) {}
 
-  get connections(): Stream.Stream<WebSocketConnection, WebSocketServerError> {
-    return Stream.fromQueue(this.connectionQueue);
+  get connections(): Stream.Stream<WebSocketConnection<A, S>, WebSocketServerError> {
+    return this.connectionBuffer.stream;
   }
 
   get messages(): Stream.Stream<ConnectionMessage, WebSocketServerError> {
-    return Stream.fromQueue(this.messageQueue);
+    return this.messageBuffer.stream;
   }
 
-  close(): Effect.Effect<void, WebSocketServerError> {
-    return Effect.try({
-      try: () => {
-        this.wss.close();
-      },
-      catch: (error) => new WebSocketServerError({ reason: (error as Error).message })
+  get events(): Stream.Stream<WebSocketServerEvent, WebSocketServerError> {
+    return this.eventBuffer.events;
+  }
+
+  serve<E, R>(
+    handler: (connection: WebSocketConnection<A, S>) => Effect.Effect<unknown, E, R>,
+    options: ServeOptions = {}
+  ): Effect.Effect<void, WebSocketServerError, Exclude<R, Scope.Scope>> {
+    return serveConnections(this.connections, handler, options, (connection, cause) =>
+      Effect.sync(() => this.eventBuffer.emit(WebSocketServerEvent.connection_error({ connectionId: connection.id, cause })))
+    );
+  }
+
+  broadcast(message: string | ArrayBuffer | Buffer, options: BroadcastOptions<A, S> = {}): Effect.Effect<number, never> {
+    return Effect.suspend(() => {
+      const except = new Set(typeof options.except === "string" ? [options.except] : options.except);
+      const recipients = Array.from(this.registry.values()).filter(
+        (connection) => !except.has(connection.id) && (options.filter?.(connection) ?? true)
+      );
+      return sendToEach(recipients, message);
+    });
+  }
+
+  getConnection(id: string): Effect.Effect<Option.Option<WebSocketConnection<A, S>>, never> {
+    return Effect.sync(() => Option.fromNullable(this.registry.get(id)));
+  }
+
+  get connectionCount(): Effect.Effect<number, never> {
+    return Effect.sync(() => this.registry.size);
+  }
+
+  publish(topic: string, message: string | ArrayBuffer | Buffer): Effect.Effect<number, never> {
+    return Effect.suspend(() => sendToEach(Array.from(this.topicRegistry.get(topic) ?? []), message));
+  }
+
+  topicMembers(topic: string): Effect.Effect<ReadonlyArray<WebSocketConnection<A, S>>, never> {
+    return Effect.sync(() => Array.from(this.topicRegistry.get(topic) ?? []));
+  }
+
+  close(options: Partial<ShutdownOptions> = {}): Effect.Effect<void, WebSocketServerError> {
+    return Effect.suspend(() => {
+      if (this.shutdown) {
+        return Deferred.await(this.shutdown);
+      }
+      const shutdown = (this.shutdown = Effect.runSync(Deferred.make<void>()));
+      return Effect.try({
+        try: () => this.stopAccepting(),
+        catch: (error) => new WebSocketServerError({ reason: (error as Error).message })
+      }).pipe(
+        Effect.zipRight(
+          drainConnections(
+            Array.from(this.registry.values()),
+            { ...this.shutdownOptions, ...options },
+            (connection) => connection.terminate()
+          )
+        ),
+        Effect.zipRight(Effect.sync(() => {
+          this.connectionBuffer.end();
+          this.messageBuffer.end();
+          this.eventBuffer.end();
+        })),
+        Effect.ensuring(Deferred.succeed(shutdown, undefined))
+      );
     });
   }
 }
 
-export const makeWebSocketServer = (
-  options: { port?: number; host?: string; path?: string } = {}
-): Effect.Effect<WebSocketServer, WebSocketServerError, Scope.Scope> =>
+const toUpgradeRequest = (req: IncomingMessage): UpgradeRequest => {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value !== undefined) {
+      headers[name] = Array.isArray(value) ? value.join(", ") : value;
+    }
+  }
+  return makeUpgradeRequest(req.url ?? "/", headers, req.socket.remoteAddress);
+};
+
+export const makeWebSocketServer = <A = unknown, S = A>(
+  options: NodeWebSocketServerOptions<A, S> = {}
+): Effect.Effect<WebSocketServer<A, S>, WebSocketServerError, Scope.Scope> =>
   Effect.gen(function* () {
     const scope = yield* Effect.scope;
-    const connectionQueue = yield* Queue.unbounded<WebSocketConnection>();
-    const messageQueue = yield* Queue.unbounded<ConnectionMessage>();
+    const connectionBuffer = makeUnreadBuffer<WebSocketConnection<A, S>>(unreadConnectionLimit);
+    const messageBuffer = makeUnreadBuffer<ConnectionMessage>(unreadMessageLimit);
+    const eventBuffer = makeServerEventBuffer();
+    const registry = new Map<string, NodeWebSocketConnection<A, S>>();
+    const topicRegistry = new Map<string, Set<NodeWebSocketConnection<A, S>>>();
+    const upgrades = new WeakMap<IncomingMessage, AcceptedUpgrade<A, S> & { request: UpgradeRequest }>();
+    const heartbeat = { ...defaultServerHeartbeatOptions, ...options.heartbeat };
+    const maxMessageSize = options.maxMessageSize ?? defaultMaxMessageSize;
+    const compression = { ...defaultCompressionOptions, ...options.compression };
 
-    const wss = new WSServer(options);
-    const server = new NodeWebSocketServer(wss, connectionQueue, messageQueue);
+    const wss = new WSServer({
+      ...(options.server ? { noServer: true } : { port: options.port, host: options.host }),
+      path: options.path,
+      maxPayload: maxMessageSize,
+      perMessageDeflate: compression.enabled && {
+        threshold: compression.threshold,
+        zlibDeflateOptions: { level: compression.level },
+        serverNoContextTakeover: !compression.serverContextTakeover,
+        clientNoContextTakeover: !compression.clientContextTakeover
+      },
+      verifyClient: (info, callback) => {
+        const request = toUpgradeRequest(info.req);
+        Effect.runPromise(acceptUpgrade(options, request, (id) => registry.has(id))).then((result) => {
+          if (Either.isRight(result)) {
+            upgrades.set(info.req, { ...result.right, request });
+            callback(true);
+          } else {
+            callback(false, result.left.status, result.left.reason);
+          }
+        });
+      }
+    });
+
+    // Fail creation when the port cannot be bound; later server errors become server_error events
+    if (!options.server) {
+      yield* Effect.async<void, WebSocketServerError>((resume) => {
+        const onListening = () => {
+          wss.off('error', onError);
+          resume(Effect.void);
+        };
+        const onError = (error: Error) => {
+          wss.off('listening', onListening);
+          wss.close();
+          resume(Effect.fail(new WebSocketServerError({ reason: error.message })));
+        };
+        wss.once('listening', onListening);
+        wss.once('error', onError);
+        return Effect.sync(() => wss.close());
+      });
+    }
 
     // Handle new connections
-    wss.on('connection', (ws: WS) => {
-      const id = Math.random().toString(36).substring(7);
-      const connection = new NodeWebSocketConnection(ws, id);
+    wss.on('connection', (ws: WS, req: IncomingMessage) => {
+      // verifyClient accepts every upgrade that reaches here
+      const upgrade = upgrades.get(req);
+      if (!upgrade) {
+        ws.terminate();
+        return;
+      }
+      const id = upgrade.id;
+      const connection = new NodeWebSocketConnection(
+        ws,
+        id,
+        upgrade.request,
+        upgrade.data,
+        upgrade.session,
+        makeUnreadBuffer<string | ArrayBuffer | Buffer>(unreadMessageLimit),
+        Effect.runSync(Deferred.make<CloseInfo>()),
+        topicRegistry,
+        compression
+      );
+      registry.set(id, connection);
 
-      Queue.unsafeOffer(connectionQueue, connection);
+      connectionBuffer.offer(connection);
+      eventBuffer.emit(WebSocketServerEvent.connected({ connectionId: id }));
 
       // Handle messages
+      // Pause reading while delayed messages wait, so the limit pushes back on the client
+      const limiter = makeInboundRateLimiter<Buffer>(options.rateLimit, {
+        deliver: (data) => {
+          // Messages a connection reader received are kept for server.messages only while it is read too
+          if (!connection.handleMessage(data) || messageBuffer.isRead()) {
+            messageBuffer.offer({ connectionId: id, data });
+          }
+        },
+        close: () => ws.close(1008, rateLimitExceededReason),
+        backlog: (waiting) => (waiting ? ws.pause() : ws.resume())
+      });
+
       ws.on('message', (data: Buffer) => {
-        Queue.unsafeOffer(messageQueue, { connectionId: id, data });
+        limiter.offer(data, data.length);
+      });
+
+      ws.on('pong', () => {
+        connection.handlePong();
       });
 
       // Handle close
-      ws.on('close', () => {
-        // Clean up if needed
+      ws.on('close', (code: number, reason: Buffer) => {
+        registry.delete(id);
+        limiter.flush();
+        const info = connection.handleClose(code, reason.toString());
+        eventBuffer.emit(WebSocketServerEvent.disconnected({ connectionId: id, ...info }));
       });
 
       // Handle errors
-      ws.on('error', (error: Error) => {
-        // Handle error if needed
+      ws.on('error', (error: Error & { code?: string }) => {
+        // Raised when a message exceeds maxPayload
+        const tooLarge = error.code === "WS_ERR_UNSUPPORTED_MESSAGE_LENGTH";
+        if (tooLarge) {
+          connection.handleMessageTooLarge();
+        }
+        const cause = tooLarge ? new WebSocketMessageTooLargeError({ limit: maxMessageSize, size: undefined }) : error;
+        eventBuffer.emit(WebSocketServerEvent.connection_error({ connectionId: id, cause }));
       });
     });
 
+    wss.on('error', (error: Error) => {
+      eventBuffer.emit(WebSocketServerEvent.server_error({ cause: error }));
+    });
+
+    // Accept upgrades from an existing HTTP server; handleUpgrade still runs verifyClient
+    const httpServer = options.server;
+    const handleUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      if (wss.shouldHandle(req)) {
+        wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+      } else if (httpServer?.listenerCount('upgrade') === 1) {
+        // Node leaves unhandled upgrades open once a listener exists, so reject them as ws does
+        socket.once('finish', () => socket.destroy());
+        socket.end("HTTP/1.1 400 Bad Request\r\nConnection: close\r\nContent-Length: 0\r\n\r\n");
+      }
+    };
+    httpServer?.on('upgrade', handleUpgrade);
+
+    const server = new NodeWebSocketServer(
+      connectionBuffer,
+      messageBuffer,
+      eventBuffer,
+      registry,
+      topicRegistry,
+      { ...defaultShutdownOptions, ...options.shutdown },
+      () => {
+        httpServer?.off('upgrade', handleUpgrade);
+        wss.close();
+      }
+    );
+
+    // Ping every connection on each heartbeat interval
+    const heartbeatIntervalId = heartbeat.enabled
+      ? setInterval(() => registry.forEach((connection) => connection.ping(heartbeat.timeout)), heartbeat.interval)
+      : undefined;
+
     // Clean up on scope close
-    yield* Scope.addFinalizer(scope, Effect.sync(() => {
-      wss.close();
-    }));
+    yield* Scope.addFinalizer(scope, Effect.ignore(server.close()).pipe(
+      Effect.ensuring(Effect.sync(() => clearInterval(heartbeatIntervalId)))
+    ));
 
     return server;
   });
 
-export const NodeWebSocketServerLive = makeWebSocketServer({ port: 8080 });
+/**
+ * The server options a layer can read from `Config`.
+ */
+export type NodeWebSocketServerConfig = Pick<NodeWebSocketServerOptions, "port" | "host" | "path" | "heartbeat" | "shutdown">;
+
+/**
+ * Layer that starts a server for `WebSocketServerService` when built and shuts it down when released.
+ */
+export const layerWebSocketServer = (
+  options: NodeWebSocketServerOptions = {}
+): Layer.Layer<WebSocketServerService, WebSocketServerError> =>
+  Layer.scoped(WebSocketServerService, makeWebSocketServer(options));
+
+/**
+ * Like `layerWebSocketServer`, reading options from `Config`. Values read from `config`
+ * take precedence over `options`, which supplies the rest (e.g. `authorize`).
+ *
+ * @example
+ * ```typescript
+ * layerWebSocketServerConfig({ port: Config.integer("WS_PORT") }, { authorize })
+ * ```
+ */
+export const layerWebSocketServerConfig = (
+  config: Config.Config.Wrap<NodeWebSocketServerConfig>,
+  options: NodeWebSocketServerOptions = {}
+): Layer.Layer<WebSocketServerService, WebSocketServerError | ConfigError.ConfigError> =>
+  Layer.scoped(
+    WebSocketServerService,
+    Effect.flatMap(Config.unwrap(config), (resolved) => makeWebSocketServer({ ...options, ...resolved }))
+  );
+
+export const NodeWebSocketServerLive = layerWebSocketServer({ port: 8080 });
 
 // Helper to create and use a WebSocket server
-export const withWebSocketServer = <A, E>(
-  options: { port?: number; hostname?: string },
-  f: (server: WebSocketServer) => Effect.Effect<A, E, Scope.Scope>
+export const withWebSocketServer = <A, E, D = unknown, S = D>(
+  options: NodeWebSocketServerOptions<D, S>,
+  f: (server: WebSocketServer<D, S>) => Effect.Effect<A, E, Scope.Scope>
 ): Effect.Effect<A, E | WebSocketServerError, Scope.Scope> =>
   Effect.scoped(
     Effect.gen(function* () {
@@ -20,7 +20,7 @@ describe("WebSocket Integration", () => {
           Effect.gen(function* () {
             // Simple client connection
             const clientResult = yield* Effect.scoped(
-              WebSocketClient.withClient(`ws://localhost:${port}`, undefined, (client) =>
+              WebSocketClient.withClient(`ws://localhost:${port}`, (client) =>
                 Effect.gen(function* () {
                   // Just connect and close
                   yield* client.send("ping")
@@ -60,7 +60,7 @@ describe("WebSocket Integration", () => {
           Effect.gen(function* () {
             // Client sends message first
             yield* Effect.scoped(
-              WebSocketClient.withClient(`ws://localhost:${port}`, undefined, (client) =>
+              WebSocketClient.withClient(`ws://localhost:${port}`, (client) =>
                 Effect.gen(function* () {
                   yield* client.send(testMessage)
                   yield* Effect.sleep(200) // Give time for message to be processed
@@ -97,7 +97,7 @@ describe("WebSocket Integration", () => {
             // Connect multiple clients first
             const clientEffects = Array.from({ length: numClients }, () =>
               Effect.scoped(
-                WebSocketClient.withClient(`ws://localhost:${port}`, undefined, (client) =>
+                WebSocketClient.withClient(`ws://localhost:${port}`, (client) =>
                   Effect.gen(function* () {
                     yield* client.send("hello")
                     yield* Effect.sleep(100)
@@ -136,7 +136,7 @@ describe("WebSocket Integration", () => {
           Effect.gen(function* () {
             // Client sends binary data first
             yield* Effect.scoped(
-              WebSocketClient.withClient(`ws://localhost:${port}`, undefined, (client) =>
+              WebSocketClient.withClient(`ws://localhost:${port}`, (client) =>
                 Effect.gen(function* () {
                   yield* client.send(binaryData.buffer)
                   yield* Effect.sleep(200)
@@ -177,7 +177,7 @@ describe("WebSocket Integration", () => {
           Effect.gen(function* () {
             // Client connects and disconnects first
             yield* Effect.scoped(
-              WebSocketClient.withClient(`ws://localhost:${port}`, undefined, (client) =>
+              WebSocketClient.withClient(`ws://localhost:${port}`, (client) =>
                 Effect.gen(function* () {
                   yield* client.send("hello")
                   yield* Effect.sleep(100)
@@ -214,7 +214,7 @@ describe("WebSocket Integration", () => {
           Effect.gen(function* () {
             // Client sends message
             yield* Effect.scoped(
-              WebSocketClient.withClient(`ws://localhost:${port}`, undefined, (client) =>
+              WebSocketClient.withClient(`ws://localhost:${port}`, (client) =>
                 Effect.gen(function* () {
                   yield* client.send(clientMessage)
                   yield* Effect.sleep(200)